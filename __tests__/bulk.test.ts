@@ -0,0 +1,81 @@
+import { PowerSchool } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+describe('Bulk writes', () => {
+  let ps: PowerSchool
+  let requests: AxiosRequestConfig[]
+
+  const success = (id: number): object => ({
+    result: { client_uid: '', status: 'SUCCESS', action: 'INSERT', success_message: { id, ref: `/ws/schema/table/u_custom_table/${id}` } },
+  })
+
+  const failure = (description: string): object => ({
+    result: {
+      status: 'FAILURE',
+      action: 'INSERT',
+      error_message: { error: [{ error_code: 'INVALID_VALUE', error_description: description, error_field: 'notes' }] },
+    },
+  })
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requests = []
+  })
+
+  it('inserts rows one request each in chunks and maps the results back to the rows', async () => {
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+      const row = config.data.tables.u_custom_table
+
+      if (row.notes === 'too long') {
+        return { data: failure('Value is too long') }
+      }
+
+      return { data: success(100 + Number(row.studentsdcid)) }
+    })
+    const rows = Array.from({ length: 7 }, (_, i) => ({ studentsdcid: i, notes: i === 3 ? 'too long' : 'ok', active: true }))
+    const chunks: number[] = []
+
+    const result = await ps.table('u_custom_table').insertMany(rows, { chunkSize: 3, concurrency: 2, onChunk: completed => chunks.push(completed) })
+
+    expect(result.total).toBe(7)
+    expect(result.succeeded.map(s => s.id)).toEqual([100, 101, 102, 104, 105, 106])
+    expect(result.failed).toHaveLength(1)
+    expect(result.failed[0]).toMatchObject({ index: 3, message: 'Value is too long', errors: [{ field: 'notes', code: 'INVALID_VALUE' }] })
+    expect(chunks).toEqual([1, 2, 3])
+    expect(requests).toHaveLength(7)
+    expect(requests[0]).toHaveProperty('method', 'post')
+    expect(requests[0]).toHaveProperty('url', '/ws/schema/table/u_custom_table')
+    expect(requests[0].params).toEqual({})
+    expect(requests[0].data).toEqual({ tables: { u_custom_table: { studentsdcid: '0', notes: 'ok', active: '1' } } })
+  })
+
+  it('updates rows by id and collects request errors', async () => {
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+
+      if (config.url.endsWith('/2')) {
+        throw Object.assign(new Error('Request failed with status code 404'), { response: { status: 404, data: { message: 'Record not found' } } })
+      }
+
+      return { data: { result: { status: 'SUCCESS', action: 'UPDATE', success_message: { id: Number(config.url.split('/').pop()) } } } }
+    })
+
+    const result = await ps.table('u_custom_table').updateMany([
+      { id: 1, notes: 'one' },
+      { id: 2, notes: 'two' },
+      { notes: 'no id' },
+    ])
+
+    expect(result.succeeded).toEqual([{ index: 0, row: { id: 1, notes: 'one' }, id: 1 }])
+    expect(result.failed.map(f => f.message)).toEqual(['Record not found', 'Rows being updated must have an "id"'])
+    expect(requests).toHaveLength(2)
+    expect(requests[0]).toHaveProperty('method', 'put')
+    expect(requests[0].data).toEqual({ tables: { u_custom_table: { notes: 'one' } } })
+  })
+
+  it('requires a table', async () => {
+    await expect(ps.request().insertMany([{ notes: 'one' }])).rejects.toThrow('A table must be set')
+  })
+})
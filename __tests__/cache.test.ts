@@ -0,0 +1,118 @@
+import { CacheOptions, FakePowerSchool, MemoryCacheStore, PowerSchool } from '../src/main.js'
+
+describe('Response cache', () => {
+  let server: FakePowerSchool
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      tables: { students: [{ id: 1, last_name: 'Smith' }], courses: [{ id: 1, course_name: 'Algebra' }] },
+      schools: [{ id: 1, name: 'High School', school_number: 100 }],
+    })
+  })
+
+  const client = (cache: CacheOptions|boolean = true): PowerSchool => new PowerSchool(server.url, server.clientId, server.clientSecret, {
+    adapter: server.adapter,
+    cache,
+  })
+
+  const sent = (): string[] => server.requests
+    .filter(request => request.url !== '/oauth/access_token')
+    .map(request => `${request.method} ${request.url}`)
+
+  it('caches GET requests by endpoint and params', async () => {
+    const ps = client()
+
+    await ps.table('students').get()
+    const res = await ps.table('students').get()
+    await ps.table('students').projection('id').get()
+    await ps.schools.get(1)
+    await ps.schools.get(1)
+
+    expect(res.first()).toEqual({ id: '1', last_name: 'Smith' })
+    expect(sent()).toEqual([
+      'get /ws/schema/table/students',
+      'get /ws/schema/table/students',
+      'get /ws/v1/school/1',
+    ])
+  })
+
+  it('removes the responses of a table when it is written to', async () => {
+    const ps = client()
+
+    await ps.table('students').get()
+    await ps.table('courses').get()
+    await ps.table('students').id(1).put(null, { tables: { students: { last_name: 'Jones' } } })
+
+    expect((await ps.table('students').get()).first()).toEqual({ id: '1', last_name: 'Jones' })
+    await ps.table('courses').get()
+    expect(sent()).toEqual([
+      'get /ws/schema/table/students',
+      'get /ws/schema/table/courses',
+      'put /ws/schema/table/students/1',
+      'get /ws/schema/table/students',
+    ])
+  })
+
+  it('expires responses by endpoint', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0)
+    const ps = client({ ttl: 1000, ttls: { '/ws/v1/school': 5000, '/ws/schema/table/courses': 0 } })
+
+    await ps.table('students').get()
+    await ps.schools.get(1)
+    await ps.table('courses').get()
+    await ps.table('courses').get()
+    now.mockReturnValue(2000)
+    await ps.table('students').get()
+    await ps.schools.get(1)
+    now.mockRestore()
+
+    expect(sent()).toEqual([
+      'get /ws/schema/table/students',
+      'get /ws/v1/school/1',
+      'get /ws/schema/table/courses',
+      'get /ws/schema/table/courses',
+      'get /ws/schema/table/students',
+    ])
+    expect(ps.getCache().ttlOf('/ws/v1/school/1/student')).toBe(5000)
+    expect(ps.getCache().ttlOf('/ws/v1/schools')).toBe(1000)
+  })
+
+  it('keeps the least recently used responses', async () => {
+    const store = new MemoryCacheStore(2)
+
+    await store.set('a', { body: '1', table: null, expiresAt: Infinity })
+    await store.set('b', { body: '2', table: null, expiresAt: Infinity })
+    await store.get('a')
+    await store.set('c', { body: '3', table: 'students', expiresAt: Infinity })
+
+    expect(await store.get('b')).toBeNull()
+    expect((await store.get('a')).body).toBe('1')
+    await store.deleteTable('students')
+    expect(await store.get('c')).toBeNull()
+    expect(store.size()).toBe(1)
+  })
+
+  it('shares a store between clients of different servers', async () => {
+    const store = new MemoryCacheStore
+    const other = new FakePowerSchool({ tables: { students: [{ id: 1, last_name: 'Brown' }] } })
+
+    await client({ store }).table('students').get()
+    const res = await new PowerSchool('https://other.powerschool.local', other.clientId, other.clientSecret, {
+      adapter: other.adapter,
+      cache: { store },
+    }).table('students').get()
+
+    expect(res.first().last_name).toBe('Brown')
+    expect(store.size()).toBe(2)
+  })
+
+  it('is off by default', async () => {
+    const ps = client(false)
+
+    await ps.table('students').get()
+    await ps.table('students').get()
+
+    expect(ps.getCache()).toBeNull()
+    expect(sent()).toHaveLength(2)
+  })
+})
@@ -0,0 +1,164 @@
+import { ChangeEvent, FileVersionStore, MemoryVersionStore, PowerSchool, parseChanges } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+describe('Change feed', () => {
+  let ps: PowerSchool
+  let versions: Record<number, object>
+  let requested: string[]
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requested = []
+    versions = {
+      5: { '$dataversion': '7', tables: { Students: [1, 2], CC: [10] } },
+      7: { '$dataversion': '8', tables: { students: { delete: [2] } } },
+      8: { '$dataversion': '8', tables: {} },
+    }
+
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requested.push(config.url)
+      const version = Number(config.url.split('/').pop())
+
+      return { data: versions[version] }
+    })
+  })
+
+  it('parses the different change formats', () => {
+    const batch = parseChanges({
+      '$dataversion': '12',
+      tables: {
+        Students: [1, { id: 2 }],
+        u_custom_table: { insert: [3], update: [4], delete: [5] },
+      },
+      deleted: { CC: [6] },
+    }, 10)
+
+    expect(batch.fromVersion).toBe(10)
+    expect(batch.version).toBe(12)
+    expect(batch.events.map(e => `${e.type}:${e.table}:${e.id}`)).toEqual([
+      'update:students:1',
+      'update:students:2',
+      'insert:u_custom_table:3',
+      'update:u_custom_table:4',
+      'delete:u_custom_table:5',
+      'delete:cc:6',
+    ])
+  })
+
+  it('syncs until caught up and stores the version', async () => {
+    const store = new MemoryVersionStore()
+    const events: ChangeEvent[] = []
+    const students: number[] = []
+    const feed = ps.changes('sis-mirror', { initialVersion: 5, store })
+      .on('*', event => {
+        events.push(event)
+      })
+      .on('update', event => {
+        students.push(event.id)
+      }, 'students')
+
+    expect(await feed.sync()).toBe(4)
+    expect(requested).toEqual([
+      '/ws/dataversion/sis-mirror/5',
+      '/ws/dataversion/sis-mirror/7',
+      '/ws/dataversion/sis-mirror/8',
+    ])
+    expect(events.map(e => e.type)).toEqual(['update', 'update', 'update', 'delete'])
+    expect(students).toEqual([1, 2])
+    expect(await store.get('sis-mirror')).toBe(8)
+  })
+
+  it('resumes from the last handled version after a handler fails', async () => {
+    const store = new MemoryVersionStore()
+    let fail = true
+    const feed = ps.changes('sis-mirror', { initialVersion: 5, store })
+      .on('delete', async () => {
+        if (fail) {
+          throw new Error('Mirror unavailable')
+        }
+      })
+
+    await expect(feed.sync()).rejects.toThrow('Mirror unavailable')
+    expect(await store.get('sis-mirror')).toBe(7)
+
+    fail = false
+    requested = []
+
+    expect(await feed.sync()).toBe(1)
+    expect(requested[0]).toBe('/ws/dataversion/sis-mirror/7')
+    expect(await feed.version()).toBe(8)
+  })
+
+  it('polls until stopped', async () => {
+    const errors: unknown[] = []
+    const feed = ps.changes('sis-mirror', { initialVersion: 8, interval: 5, onError: err => errors.push(err) })
+
+    feed.start()
+    await new Promise(resolve => setTimeout(resolve, 30))
+    feed.stop()
+
+    expect(feed.running()).toBe(false)
+    expect(requested.length).toBeGreaterThan(1)
+    expect(errors).toEqual([])
+  })
+
+  it('keeps one polling loop when restarted during a sync', async () => {
+    let release: () => void
+    const gate = new Promise<void>(resolve => {
+      release = resolve
+    })
+    const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+    const feed = ps.changes('sis-mirror', { initialVersion: 8, interval: 20 })
+
+    jest.spyOn(ps['client'], 'request').mockImplementationOnce(async (config: AxiosRequestConfig) => {
+      requested.push(config.url)
+      await gate
+
+      return { data: versions[8] }
+    })
+
+    feed.start()
+    await wait(5)
+    feed.stop().start()
+    await wait(5)
+    release()
+    await wait(5)
+    feed.stop()
+
+    const polls = requested.length
+    await wait(50)
+
+    expect(requested).toHaveLength(polls)
+  })
+
+    it('stores versions in a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'powerschool-'))
+    const path = join(dir, 'versions.json')
+
+    try {
+      await new FileVersionStore(path).set('sis-mirror', 8)
+
+      expect(await new FileVersionStore(path).get('sis-mirror')).toBe(8)
+      expect(await new FileVersionStore(path).get('other')).toBeNull()
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('keeps every version written at once by feeds sharing a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'powerschool-'))
+    const path = join(dir, 'versions.json')
+
+    try {
+      await Promise.all(['a', 'b', 'c', 'd'].map((app, index) => new FileVersionStore(path).set(app, index + 1)))
+
+      expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ a: 1, b: 2, c: 3, d: 4 })
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
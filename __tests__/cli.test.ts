@@ -0,0 +1,155 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Cli, FakePowerSchool } from '../src/main.js'
+
+describe('CLI', () => {
+  let server: FakePowerSchool
+  let stdout: string
+  let stderr: string
+  let dir: string
+
+  const run = (argv: string[], env: Record<string, string> = {}): Promise<number> => {
+    const cli = new Cli({
+      env: {
+        POWERSCHOOL_URL: server.url,
+        POWERSCHOOL_CLIENT_ID: server.clientId,
+        POWERSCHOOL_CLIENT_SECRET: server.clientSecret,
+        POWERSCHOOL_CONFIG: join(dir, 'missing.json'),
+        ...env,
+      },
+      stdout: { write: (text: string) => stdout += text },
+      stderr: { write: (text: string) => stderr += text },
+      clientOptions: { adapter: server.adapter },
+    })
+
+    return cli.run(argv)
+  }
+
+  beforeEach(async () => {
+    server = new FakePowerSchool({
+      tables: {
+        u_custom_table: [
+          { id: 1, studentsdcid: 10, notes: 'first' },
+          { id: 2, studentsdcid: 11, notes: 'with, comma' },
+          { id: 3, studentsdcid: 12, notes: 'third' },
+        ],
+      },
+      queries: {
+        'com.example.plugin.students': (args): object[] => [{ dcid: '10', school: args.school_id }],
+      },
+      schools: [{ id: 1, name: 'High School', school_number: 100 }],
+      students: [{ id: 10, name: { last_name: 'Smith' }, school_enrollment: { school_id: 1 } }],
+    })
+    stdout = ''
+    stderr = ''
+    dir = await mkdtemp(join(tmpdir(), 'powerschool-cli-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('prints a token', async () => {
+    expect(await run(['token'])).toBe(0)
+    expect(JSON.parse(stdout)).toMatchObject({ access_token: 'fake-token-1' })
+  })
+
+  it('prints every page of a table as JSON', async () => {
+    expect(await run(['table', 'u_custom_table', '--page-size', '2', '--projection', 'id,notes'])).toBe(0)
+    expect(JSON.parse(stdout)).toEqual([
+      { id: '1', notes: 'first' },
+      { id: '2', notes: 'with, comma' },
+      { id: '3', notes: 'third' },
+    ])
+  })
+
+  it('prints records as CSV and as a table', async () => {
+    await run(['table', 'u_custom_table', '--q', 'studentsdcid=le=11', '--format', 'csv'])
+    expect(stdout).toBe('id,studentsdcid,notes\r\n1,10,first\r\n2,11,"with, comma"\r\n')
+
+    stdout = ''
+    await run(['get', '/ws/v1/school/1/student', '--format=table'])
+    expect(stdout).toBe('id  name.last_name  school_enrollment.school_id\n10  Smith           1\n')
+  })
+
+  it('runs PowerQueries with arguments', async () => {
+    expect(await run(['pq', 'com.example.plugin.students', '--arg', 'school_id=1'])).toBe(0)
+    expect(JSON.parse(stdout)).toEqual([{ dcid: '10', school: '1' }])
+  })
+
+  it('counts tables and endpoints', async () => {
+    await run(['count', 'u_custom_table', '--q', 'notes==*th*'])
+    expect(JSON.parse(stdout)).toEqual({ count: 2 })
+
+    stdout = ''
+    await run(['count', '/ws/v1/school/1/student'])
+    expect(JSON.parse(stdout)).toEqual({ count: 1 })
+  })
+
+  it('prints the changes of a data subscription', async () => {
+    server.recordChange('students', 10)
+
+    expect(await run(['changes', 'app', '0'])).toBe(0)
+    expect(JSON.parse(stdout)).toEqual([{ type: 'update', table: 'students', id: 10, version: 1 }])
+  })
+
+  it('reads credentials from a profile', async () => {
+    const config = join(dir, 'config.json')
+    await writeFile(config, JSON.stringify({ district: { url: server.url, clientId: server.clientId, clientSecret: server.clientSecret } }))
+
+    expect(await run(['token', '--profile', 'district', '--config', config], { POWERSCHOOL_CLIENT_SECRET: 'wrong' })).toBe(0)
+    expect(await run(['token', '--profile', 'school', '--config', config])).toBe(1)
+    expect(stderr).toContain('The profile "school" was not found')
+  })
+
+  it('exits with the error of a failed request', async () => {
+    expect(await run(['get', '/ws/v1/student/99'])).toBe(1)
+    expect(stderr).toBe('Error: The student 99 was not found\n')
+    expect(stdout).toBe('')
+  })
+
+  it('exits with a usage error for invalid arguments', async () => {
+    const cases: Array<[string[], string]> = [
+      [[], 'A command is required'],
+      [['export'], 'Unknown command "export"'],
+      [['table', 'u_custom_table', '--format', 'xml'], 'Unknown format "xml"'],
+      [['table'], 'The table command requires <name>'],
+      [['changes', 'app'], 'The changes command requires <version>'],
+      [['changes', 'app', 'latest'], 'The version must be a number, received "latest"'],
+      [['pq', 'com.example.plugin.students', '--arg', 'school_id'], 'Arguments must be given as key=value, received "school_id"'],
+      [['table', 'u_custom_table', '--q'], 'The --q option requires a value'],
+      [['table', 'u_custom_table', '--limit', '5'], 'Unknown option "--limit"'],
+      [['token', '--client_id=id'], 'Unknown option "--client_id"'],
+    ]
+
+    for (const [argv, message] of cases) {
+      stderr = ''
+
+      expect(await run(argv)).toBe(2)
+      expect(stderr).toContain(`Error: ${message}\n\nUsage: node-powerschool`)
+    }
+
+    expect(stdout).toBe('')
+    expect(server.requests).toEqual([])
+  })
+
+  it('prints the usage when asked', async () => {
+    expect(await run(['help'])).toBe(0)
+    expect(stdout).toContain('Usage: node-powerschool')
+    expect(await run(['table', '--help'])).toBe(0)
+    expect(stderr).toBe('')
+  })
+
+  it('exits with a usage error for invalid page sizes', async () => {
+    for (const pageSize of ['abc', '0', '-1', '1.5', '']) {
+      stderr = ''
+
+      expect(await run(['table', 'u_custom_table', '--page-size', pageSize])).toBe(2)
+      expect(stderr).toContain(`Error: The --page-size option must be a positive integer, received "${pageSize}"`)
+      expect(stderr).toContain('Usage: node-powerschool')
+    }
+
+    expect(server.requests).toEqual([])
+  })
+})
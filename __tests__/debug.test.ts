@@ -0,0 +1,88 @@
+import { FakePowerSchool, Logger, PowerSchool } from '../src/main.js'
+
+describe('Debug logging', () => {
+  let server: FakePowerSchool
+  let messages: { message: string, details: Record<string, unknown> }[]
+  let logger: Logger
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      tables: { students: [{ id: 1 }, { id: 2 }, { id: 3 }] },
+    })
+    messages = []
+    logger = { debug: (message, details): void => void messages.push({ message, details }) }
+  })
+
+  const client = (options: object = {}): PowerSchool => new PowerSchool(server.url, server.clientId, server.clientSecret, {
+    adapter: server.adapter,
+    debug: true,
+    logger,
+    ...options,
+  })
+
+  it('logs requests and pages', async () => {
+    const ps = client()
+
+    await ps.table('students').projection('id').paginate(2).next()
+    await ps.table('students').post(null, { tables: { students: { id: 4 } } })
+
+    expect(messages.map(({ message }) => message.replace(/\d+ms/, 'Nms'))).toEqual([
+      'POST /oauth/access_token 200 Nms',
+      'GET /ws/schema/table/students 200 Nms',
+      'Received page 1 of /ws/schema/table/students',
+      'POST /ws/schema/table/students 200 Nms',
+    ])
+    expect(messages[1].details).toMatchObject({
+      type: 'request',
+      method: 'GET',
+      params: { projection: 'id', page: 1, pagesize: 2 },
+      bodySize: 0,
+      status: 200,
+    })
+    expect(messages[2].details).toEqual({ page: 1, records: 2, received: 2, total: null })
+    expect(messages[3].details.bodySize).toBeGreaterThan(0)
+  })
+
+  it('redacts credentials and tokens', async () => {
+    const ps = client()
+
+    await ps.table('students').get()
+
+    const logged = JSON.stringify(messages)
+
+    expect(logged).not.toContain(server.clientSecret)
+    expect(logged).not.toContain(ps.getToken())
+    expect(logged).not.toContain(Buffer.from(`${server.clientId}:${server.clientSecret}`).toString('base64'))
+    expect(messages[1].details.headers).toMatchObject({ Authorization: '[REDACTED]' })
+  })
+
+  it('logs failures and retries', async () => {
+    const ps = client({ retry: { maxAttempts: 2, baseDelay: 0, jitter: false } })
+
+    await expect(ps.table('students').id(9).get()).rejects.toThrow()
+
+    const retried = client({ retry: { maxAttempts: 2, baseDelay: 0, jitter: false } })
+    const request = jest.spyOn(retried['client'], 'request')
+      .mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { response: { status: 503, data: {} } }))
+
+    await retried.table('students').get()
+
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(messages.map(({ message }) => message.replace(/\d+ms/, 'Nms'))).toEqual([
+      'POST /oauth/access_token 200 Nms',
+      'GET /ws/schema/table/students/9 404 Nms: Record 9 not found in students',
+      'POST /oauth/access_token 200 Nms',
+      'GET /ws/schema/table/students 503 Nms: Service Unavailable',
+      'Retrying GET /ws/schema/table/students in Nms',
+      'GET /ws/schema/table/students 200 Nms',
+    ])
+    expect(messages[4].details).toMatchObject({ attempt: 1, delay: 0, status: 503 })
+  })
+
+  it('stays quiet unless enabled', async () => {
+    await client({ debug: false }).table('students').get()
+
+    expect(messages).toEqual([])
+    expect(client({ debug: false }).getLogger()).toBeNull()
+  })
+})
@@ -0,0 +1,159 @@
+import { FakePowerSchool, PowerSchool, PowerSchoolResponse, TableMetadata, decodeRecord, decodeValue, generateTableTypes } from '../src/main.js'
+
+describe('Decoding', () => {
+  const metadata: TableMetadata = {
+    name: 'u_custom_table',
+    columns: [
+      { name: 'id', type: 'NUMBER', nullable: false },
+      { name: 'studentsdcid', type: 'NUMBER', nullable: false },
+      { name: 'notes', type: 'VARCHAR2', nullable: true },
+      { name: 'entered', type: 'DATE', nullable: true },
+      { name: 'updated_at', type: 'TIMESTAMP', nullable: true },
+    ],
+    extensions: [],
+  }
+
+  let server: FakePowerSchool
+  let ps: PowerSchool
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      tables: {
+        u_custom_table: [
+          { id: 1, studentsdcid: 10, notes: '', entered: '2023-08-01', updated_at: '2023-08-01 13:45:10', active: '1' },
+          { id: 2, studentsdcid: 11, notes: 'second', entered: '0/0/0', updated_at: '', active: '0' },
+        ],
+      },
+    })
+    ps = server.client()
+  })
+
+  it('decodes values by type', () => {
+    expect(decodeValue('42', 'number')).toBe(42)
+    expect(decodeValue('1.5', 'number')).toBe(1.5)
+    expect(decodeValue('', 'number')).toBeNull()
+    expect(decodeValue('abc', 'number')).toBe('abc')
+    expect(decodeValue('1', 'boolean')).toBe(true)
+    expect(decodeValue('0', 'boolean')).toBe(false)
+    expect(decodeValue('Y', 'boolean')).toBe('Y')
+    expect(decodeValue('false', 'boolean')).toBe('false')
+    expect(decodeValue('2023-08-01 13:45:10.250', 'timestamp')).toEqual(new Date(2023, 7, 1, 13, 45, 10, 250))
+    expect(decodeValue('2023-08-01', 'date')).toEqual(new Date(2023, 7, 1))
+    expect(decodeValue('08/01/2023', 'date')).toEqual(new Date(2023, 7, 1))
+    expect(decodeValue('2023-08-01T13:45:10', 'timestamp')).toEqual(new Date(2023, 7, 1, 13, 45, 10))
+    expect(decodeValue('0/0/0', 'date')).toBeNull()
+    expect(decodeValue('', 'string')).toBe('')
+  })
+
+  it('decodes responses using table metadata', async () => {
+    const res = await ps.table('u_custom_table').get()
+    const decoded = res.decode(metadata)
+
+    expect(decoded.first()).toEqual({
+      id: 1,
+      studentsdcid: 10,
+      notes: '',
+      entered: new Date(2023, 7, 1),
+      updated_at: new Date(2023, 7, 1, 13, 45, 10),
+      active: '1',
+    })
+    expect(res.first().studentsdcid).toBe('10')
+  })
+
+  it('decodes every page of a request using column types', async () => {
+    const records = []
+
+    for await (const record of ps.table('u_custom_table').decode({ studentsdcid: 'number', entered: 'date', active: 'boolean' }).paginate(1)) {
+      records.push(record)
+    }
+
+    expect(records.map(record => [record.studentsdcid, record.entered, record.active])).toEqual([
+      [10, new Date(2023, 7, 1), true],
+      [11, null, false],
+    ])
+  })
+
+  it('round-trips decoded values through writes', async () => {
+    const table = ps.table('u_custom_table')
+    const types = { studentsdcid: 'number', entered: 'date', updated_at: 'timestamp', active: 'boolean' } as const
+    const [first] = (await table.id(1).get()).decode(types).toArray()
+
+    await table.id(1).put(null, { tables: { u_custom_table: table.castValuesToString({ ...first, notes: null }) } })
+
+    expect(server.rows('u_custom_table')[0]).toEqual({
+      id: '1',
+      studentsdcid: '10',
+      notes: '',
+      entered: '2023-08-01',
+      updated_at: '2023-08-01 13:45:10',
+      active: '1',
+    })
+  })
+
+  it('decodes and writes dates in the district time zone', async () => {
+    const zone = process.env.TZ
+    process.env.TZ = 'UTC'
+
+    try {
+      server.rows('u_custom_table')[0].updated_at = '2023-08-01 00:00:00'
+      ps = server.client({ serialization: { timeZone: 'America/Chicago' } })
+
+      const table = ps.table('u_custom_table')
+      const [first] = (await table.id(1).get()).decode(metadata).toArray()
+
+      expect(first.entered).toEqual(new Date('2023-08-01T05:00:00Z'))
+      expect(first.updated_at).toEqual(new Date('2023-08-01T05:00:00Z'))
+      expect(decodeValue('2023-01-15 13:45:10', 'timestamp', 'America/Chicago')).toEqual(new Date('2023-01-15T19:45:10Z'))
+
+      await table.id(1).put(null, { tables: { u_custom_table: table.castValuesToString(first) } })
+
+      expect(server.rows('u_custom_table')[0]).toMatchObject({
+        entered: '2023-08-01',
+        updated_at: '2023-08-01 00:00:00',
+      })
+    } finally {
+      process.env.TZ = zone
+    }
+  })
+
+    it('writes decoded records back as they were read', () => {
+    const raw = {
+      studentsdcid: '10',
+      notes: '',
+      entered: '2023-08-01',
+      updated_at: '2023-08-01 13:45:10.250',
+      active: '1',
+      inactive: '0',
+      flag: 'Y',
+      other_flag: 'no',
+    }
+    const types = {
+      studentsdcid: 'number',
+      entered: 'date',
+      updated_at: 'timestamp',
+      active: 'boolean',
+      inactive: 'boolean',
+      flag: 'boolean',
+      other_flag: 'boolean',
+    } as const
+
+    expect(ps.request().castValuesToString(decodeRecord(raw, types))).toEqual(raw)
+  })
+
+  it('decodes records of responses created directly', () => {
+    const res = new PowerSchoolResponse({ record: [{ tables: { t: { n: '5' } } }] }, { table: 't', columnTypes: { n: 'number' } })
+
+    expect(res.first()).toEqual({ n: 5 })
+  })
+
+  it('generates the decoded types of tables', () => {
+    expect(generateTableTypes([metadata], { decoded: true })).toContain([
+      '  /** NUMBER, not null */',
+      '  studentsdcid: number',
+      '  /** VARCHAR2 */',
+      '  notes?: string',
+      '  /** DATE */',
+      '  entered?: Date|null',
+    ].join('\n'))
+  })
+})
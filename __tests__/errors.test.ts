@@ -0,0 +1,124 @@
+import {
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  PowerSchool,
+  PowerSchoolError,
+  ServerError,
+  ValidationError,
+} from '../src/main.js'
+
+describe('Errors', () => {
+  let ps: PowerSchool
+
+  const respondWith = (status: number, data: unknown): void => {
+    jest.spyOn(ps['client'], 'request').mockRejectedValue(Object.assign(new Error(`Request failed with status code ${status}`), {
+      response: { status, data },
+    }))
+  }
+
+  const caught = async (promise: Promise<unknown>): Promise<PowerSchoolError> => {
+    try {
+      await promise
+    } catch (err) {
+      return err
+    }
+
+    throw new Error('Expected the request to fail')
+  }
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+  })
+
+  it.each([
+    [403, AuthorizationError],
+    [404, NotFoundError],
+    [400, ValidationError],
+    [422, ValidationError],
+    [500, ServerError],
+    [503, ServerError],
+    [418, PowerSchoolError],
+  ])('maps a %d response to %p', async (status, ErrorClass) => {
+    respondWith(status, {})
+
+    const err = await caught(ps.get('/ws/v1/district'))
+
+    expect(err).toBeInstanceOf(ErrorClass)
+    expect(err).toBeInstanceOf(PowerSchoolError)
+    expect(err.name).toBe(ErrorClass.name)
+    expect(err.status).toBe(status)
+  })
+
+  it('exposes the request and PowerSchool validation errors', async () => {
+    respondWith(400, {
+      message: 'Validation Failed',
+      errors: [{ resource: 'u_custom_table', field: 'studentsdcid', code: 'missing_field' }],
+    })
+
+    const err = await caught(ps.table('u_custom_table').post(null, { tables: {} }))
+
+    expect(err).toBeInstanceOf(ValidationError)
+    expect(err.message).toBe('Validation Failed')
+    expect(err.endpoint).toBe('/ws/schema/table/u_custom_table')
+    expect(err.method).toBe('POST')
+    expect(err.errors).toEqual([{
+      message: 'missing_field',
+      field: 'studentsdcid',
+      code: 'missing_field',
+      resource: 'u_custom_table',
+    }])
+  })
+
+  it('parses table write results', async () => {
+    respondWith(400, {
+      result: [{
+        status: 'FAILURE',
+        action: 'INSERT',
+        error_message: {
+          error: [{ error_code: 'INVALID_VALUE', error_description: 'Value is too long', error_field: 'notes' }],
+        },
+      }],
+    })
+
+    const err = await caught(ps.table('u_custom_table').post())
+
+    expect(err.message).toBe('Value is too long')
+    expect(err.errors).toEqual([{ message: 'Value is too long', field: 'notes', code: 'INVALID_VALUE' }])
+  })
+
+  it('uses a plain text payload as the message', async () => {
+    respondWith(403, 'Field students.ssn is not in the access request')
+
+    const err = await caught(ps.get('/ws/v1/student/1'))
+
+    expect(err).toBeInstanceOf(AuthorizationError)
+    expect(err.message).toBe('Field students.ssn is not in the access request')
+    expect(err.errors).toEqual([])
+  })
+
+  it('wraps network errors without a status', async () => {
+    jest.spyOn(ps['client'], 'request').mockRejectedValue(new Error('socket hang up'))
+
+    const err = await caught(ps.get('/ws/v1/district'))
+
+    expect(err.constructor).toBe(PowerSchoolError)
+    expect(err.status).toBeNull()
+    expect(err.message).toBe('socket hang up')
+    expect(err.cause).toBeInstanceOf(Error)
+  })
+
+  it('throws an authentication error when the credentials are rejected', async () => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+    jest.spyOn(ps['client'], 'post').mockRejectedValue(Object.assign(new Error('Request failed with status code 401'), {
+      response: { status: 401, data: { error: 'invalid_client' } },
+    }))
+
+    const err = await caught(ps.retrieveToken())
+
+    expect(err).toBeInstanceOf(AuthenticationError)
+    expect(err.message).toBe('invalid_client')
+    expect(err.endpoint).toBe('/oauth/access_token')
+  })
+})
@@ -0,0 +1,77 @@
+import { Writable } from 'stream'
+import { ExportProgress, FakePowerSchool, PowerSchool } from '../src/main.js'
+
+describe('Exports', () => {
+  let server: FakePowerSchool
+  let ps: PowerSchool
+  let output: string
+  let stream: Writable
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      tables: {
+        u_custom_table: Array.from({ length: 5 }, (_, i) => ({ id: i + 1, studentsdcid: 10 + i, notes: i === 1 ? 'say "hi", then\nleave' : `note ${i}` })),
+      },
+      students: [
+        { id: 10, name: { first_name: 'Jo', last_name: 'Smith' }, school_enrollment: { school_id: 1 } },
+      ],
+    })
+    ps = server.client()
+    output = ''
+    // A tiny buffer forces the exporter to wait for the stream to drain
+    stream = new Writable({
+      highWaterMark: 8,
+      write(chunk, _, callback): void {
+        output += chunk.toString()
+        setImmediate(callback)
+      },
+    })
+  })
+
+  it('streams pages as CSV using the projection as the header', async () => {
+    const progress: ExportProgress[] = []
+
+    const result = await ps.table('u_custom_table')
+      .projection('id,notes')
+      .exportTo(stream, { pageSize: 2, onProgress: p => progress.push(p) })
+
+    expect(output).toBe([
+      'id,notes',
+      '1,note 0',
+      '2,"say ""hi"", then\nleave"',
+      '3,note 2',
+      '4,note 3',
+      '5,note 4',
+      '',
+    ].join('\r\n'))
+    expect(result).toEqual({ pages: 3, records: 5 })
+    expect(progress).toEqual([{ pages: 1, records: 2 }, { pages: 2, records: 4 }, { pages: 3, records: 5 }])
+    expect(stream.writableFinished).toBe(true)
+  })
+
+  it('infers the header from the first record and renames columns', async () => {
+    await ps.request()
+      .setEndpoint('/ws/v1/district/student')
+      .exportTo(stream, { rename: { 'name.last_name': 'last' } })
+
+    expect(output).toBe('id,name.first_name,last,school_enrollment.school_id\r\n10,Jo,Smith,1\r\n')
+  })
+
+  it('streams NDJSON with selected columns', async () => {
+    await ps.table('u_custom_table')
+      .q('id=le=2')
+      .exportTo(stream, { format: 'ndjson', columns: ['id', 'studentsdcid'], rename: { studentsdcid: 'dcid' } })
+
+    expect(output.split('\n').filter(Boolean).map(line => JSON.parse(line))).toEqual([
+      { id: '1', dcid: '10' },
+      { id: '2', dcid: '11' },
+    ])
+  })
+
+  it('leaves the stream open when asked', async () => {
+    await ps.table('u_custom_table').exportTo(stream, { format: 'ndjson', end: false })
+
+    expect(output.split('\n').filter(Boolean)).toHaveLength(5)
+    expect(stream.writableEnded).toBe(false)
+  })
+})
@@ -0,0 +1,122 @@
+import { FakePowerSchool, NotFoundError, PowerSchool, ValidationError, where } from '../src/main.js'
+
+describe('Fake PowerSchool', () => {
+  let server: FakePowerSchool
+  let ps: PowerSchool
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      tables: {
+        u_custom_table: [
+          { id: 1, studentsdcid: 10, notes: 'first' },
+          { id: 2, studentsdcid: 11, notes: 'second' },
+          { id: 3, studentsdcid: 12, notes: 'third' },
+        ],
+      },
+      queries: {
+        'com.example.plugin.students': (args): object[] => [
+          { dcid: '10', schoolid: args.school_id },
+          { dcid: '11', schoolid: args.school_id },
+          { dcid: '12', schoolid: args.school_id },
+        ],
+      },
+      district: { name: 'Example District' },
+      schools: [{ id: 1, name: 'High School', school_number: 100 }],
+      students: [
+        { id: 10, name: { last_name: 'Smith' }, school_enrollment: { school_id: 1, grade_level: 9 } },
+        { id: 11, name: { last_name: 'Jones' }, school_enrollment: { school_id: 1, grade_level: 10 } },
+        { id: 12, name: { last_name: 'Smythe' }, school_enrollment: { school_id: 2, grade_level: 9 } },
+      ],
+    })
+    ps = server.client()
+  })
+
+  it('issues tokens to the plugin', async () => {
+    await ps.retrieveToken()
+
+    expect(ps.tokenSet()).toBe(true)
+    expect(ps.getTokenExpiration()).toBeInstanceOf(Date)
+    expect(server.requests[0]).toMatchObject({ method: 'post', url: '/oauth/access_token' })
+  })
+
+  it('rejects unknown clients', async () => {
+    const other = new PowerSchool(server.url, 'someone', 'else', { adapter: server.adapter })
+
+    await expect(other.retrieveToken()).rejects.toMatchObject({ name: 'AuthenticationError', status: 401 })
+  })
+
+  it('replaces expired tokens', async () => {
+    await ps.retrieveToken()
+    server.expireTokens()
+
+    const res = await ps.table('u_custom_table').id(1).get()
+
+    expect(res.first()).toMatchObject({ id: '1', notes: 'first' })
+    expect(server.requests.filter(r => r.url === '/oauth/access_token')).toHaveLength(2)
+  })
+
+  it('pages, filters and counts table rows', async () => {
+    const table = ps.table('u_custom_table')
+    const rows = []
+
+    for await (const row of table.paginate(2)) {
+      rows.push(row)
+    }
+
+    expect(rows.map(row => row.notes)).toEqual(['first', 'second', 'third'])
+    expect((await table.q(where('studentsdcid').gte(11)).count()).rawData).toEqual({ count: 2 })
+    expect((await table.q('notes==th*').get()).pluck('id')).toEqual(['3'])
+  })
+
+  it('writes table rows and reports them as changes', async () => {
+    const table = ps.table('u_custom_table')
+
+    const inserted = await table.insertMany([{ studentsdcid: 13, notes: 'fourth' }])
+    await table.id(1).put(null, { tables: { u_custom_table: { notes: 'changed' } } })
+    await table.id(2).delete()
+
+    expect(inserted.succeeded[0].id).toBe(4)
+    expect(server.rows('u_custom_table').map(row => row.notes)).toEqual(['changed', 'third', 'fourth'])
+    await expect(table.id(2).get()).rejects.toBeInstanceOf(NotFoundError)
+
+    const batch = await ps.changes('app').fetch(0)
+
+    expect(batch.version).toBe(3)
+    expect(batch.events).toEqual([
+      { type: 'update', table: 'u_custom_table', id: 4, version: 3 },
+      { type: 'update', table: 'u_custom_table', id: 1, version: 3 },
+      { type: 'delete', table: 'u_custom_table', id: 2, version: 3 },
+    ])
+  })
+
+  it('runs PowerQueries with paging', async () => {
+    const records = []
+
+    for await (const record of ps.request().pq('com.example.plugin.students', { school_id: '1' }).paginate(2)) {
+      records.push(record)
+    }
+
+    expect(records).toEqual([
+      { dcid: '10', schoolid: '1' },
+      { dcid: '11', schoolid: '1' },
+      { dcid: '12', schoolid: '1' },
+    ])
+  })
+
+  it('serves core resources', async () => {
+    expect(await ps.district.get()).toEqual({ name: 'Example District' })
+    expect(await ps.schools.get(1)).toMatchObject({ name: 'High School' })
+    expect((await ps.schools.students(1)).map(student => student.id)).toEqual([10, 11])
+    expect((await ps.district.students({ q: 'name.last_name==Sm*;school_enrollment.grade_level==9' })).map(student => student.id)).toEqual([10, 12])
+    await expect(ps.students.get(99)).rejects.toBeInstanceOf(NotFoundError)
+  })
+
+  it('rejects invalid query expressions without retrying', async () => {
+    const error = await ps.table('u_custom_table').q('name~Smith').get().catch(err => err)
+
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.status).toBe(400)
+    expect(error.message).toContain('Invalid query condition "name~Smith"')
+    expect(server.requests.filter(request => request.url.startsWith('/ws/schema'))).toHaveLength(1)
+  })
+})
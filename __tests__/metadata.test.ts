@@ -0,0 +1,128 @@
+import { Cli, FakePowerSchool, PowerSchool, TableMetadata, generateTableTypes, parseTableMetadata, where } from '../src/main.js'
+
+describe('Table metadata', () => {
+  const students: TableMetadata = {
+    name: 'students',
+    columns: [
+      { name: 'dcid', type: 'NUMBER', length: 10, nullable: false },
+      { name: 'last_name', type: 'VARCHAR2', length: 50, nullable: true, description: 'The last name' },
+      { name: 'grade_level', type: 'NUMBER', nullable: true },
+    ],
+    extensions: ['u_students_extension'],
+  }
+  const extension: TableMetadata = {
+    name: 'u_students_extension',
+    columns: [{ name: 'nickname', type: 'VARCHAR2', nullable: true }],
+    extensions: [],
+  }
+
+  interface Students {
+    dcid: string
+    last_name?: string
+    grade_level?: string
+  }
+
+  let server: FakePowerSchool
+  let ps: PowerSchool
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      metadata: [students, extension],
+      tables: {
+        students: [
+          { id: 1, dcid: 1, last_name: 'Smith', grade_level: 9 },
+          { id: 2, dcid: 2, last_name: 'Jones', grade_level: 10 },
+        ],
+      },
+    })
+    ps = server.client()
+  })
+
+  it('parses the metadata of a table', () => {
+    expect(parseTableMetadata({
+      metadata: {
+        name: 'STUDENTS',
+        columns: [
+          { name: 'DCID', type: 'number', required: true },
+          { name: 'Last_Name', type: 'varchar2', length: '50', nullable: 'true' },
+        ],
+        extensions: [{ name: 'U_Students_Extension' }],
+      },
+    }, 'students')).toEqual({
+      name: 'students',
+      columns: [
+        { name: 'dcid', type: 'NUMBER', nullable: false },
+        { name: 'last_name', type: 'VARCHAR2', length: 50, nullable: true },
+      ],
+      extensions: ['u_students_extension'],
+    })
+  })
+
+  it('retrieves the metadata of a table', async () => {
+    expect(await ps.metadata('students')).toEqual(students)
+    expect(server.requests[1]).toMatchObject({ method: 'get', url: '/ws/schema/table/students/metadata' })
+  })
+
+  it('generates interfaces for tables and their extensions', () => {
+    expect(generateTableTypes([students, extension])).toBe([
+      '// Generated by node-powerschool from the table metadata of PowerSchool.',
+      '',
+      '/**',
+      ' * A record of the students table.',
+      ' */',
+      'export interface Students extends Partial<UStudentsExtension> {',
+      '  /** NUMBER(10), not null */',
+      '  dcid: string',
+      '  /** The last name VARCHAR2(50) */',
+      '  last_name?: string',
+      '  /** NUMBER */',
+      '  grade_level?: string',
+      '}',
+      '',
+      '/**',
+      ' * A record of the u_students_extension table.',
+      ' */',
+      'export interface UStudentsExtension {',
+      '  /** VARCHAR2 */',
+      '  nickname?: string',
+      '}',
+      '',
+      'export interface PowerSchoolTables {',
+      '  students: Students',
+      '  u_students_extension: UStudentsExtension',
+      '}',
+      '',
+    ].join('\n'))
+  })
+
+  it('checks the fields of typed table requests', async () => {
+    const table = ps.table<Students>('students')
+      .projection(['dcid', 'last_name'])
+      .q(where('grade_level').gte(10))
+      .sort('last_name')
+    const records: Students[] = []
+
+    for await (const record of table.paginate()) {
+      records.push(record)
+    }
+
+    expect(records).toEqual([{ id: 2, dcid: '2', last_name: 'Jones' }])
+
+    // @ts-expect-error lastname is not a field of students
+    ps.table<Students>('students').projection(['dcid', 'lastname'])
+    // @ts-expect-error grade is not a field of students
+    ps.table<Students>('students').q(where('grade').gte(10))
+  })
+
+  it('prints generated types from the command line', async () => {
+    let stdout = ''
+    const cli = new Cli({
+      env: { POWERSCHOOL_URL: server.url, POWERSCHOOL_CLIENT_ID: server.clientId, POWERSCHOOL_CLIENT_SECRET: server.clientSecret, POWERSCHOOL_CONFIG: '/nonexistent.json' },
+      stdout: { write: (text: string): string => stdout += text },
+      clientOptions: { adapter: server.adapter },
+    })
+
+    expect(await cli.run(['types', 'students'])).toBe(0)
+    expect(stdout).toBe(generateTableTypes([students, extension]))
+  })
+})
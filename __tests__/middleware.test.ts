@@ -0,0 +1,108 @@
+import { FakePowerSchool, MiddlewareContext, NotFoundError, PowerSchool } from '../src/main.js'
+
+describe('Middleware', () => {
+  let server: FakePowerSchool
+  let ps: PowerSchool
+
+  beforeEach(() => {
+    server = new FakePowerSchool({
+      tables: { students: [{ id: 1, last_name: 'Smith' }] },
+    })
+    ps = server.client()
+  })
+
+  it('runs around token and table requests', async () => {
+    const calls: string[] = []
+
+    ps.use({
+      beforeRequest: (context): void => {
+        calls.push(`before ${context.type} ${context.axiosConfig.url}`)
+      },
+      afterResponse: (context): void => {
+        calls.push(`after ${context.type} ${context.duration >= 0}`)
+      },
+    })
+
+    await ps.table('students').get()
+
+    expect(calls).toEqual([
+      'before token /oauth/access_token',
+      'after token true',
+      'before request /ws/schema/table/students',
+      'after request true',
+    ])
+  })
+
+  it('sends changes made to the axios config', async () => {
+    const spy = jest.spyOn(server, 'adapter')
+
+    ps = server.client()
+    ps.use({
+      beforeRequest: (context): void => {
+        context.axiosConfig.headers['X-Request-Id'] = 'abc'
+      },
+    })
+
+    await ps.table('students').get()
+
+    expect(spy.mock.calls[1][0].headers['X-Request-Id']).toBe('abc')
+  })
+
+  it('short-circuits requests', async () => {
+    const later = jest.fn()
+
+    ps.setToken('token').use({
+      beforeRequest: (context) => context.config.table === 'students'
+        ? { data: { record: [{ id: 2, tables: { students: { id: 2, last_name: 'Cached' } } }] } }
+        : undefined,
+    }).use({ beforeRequest: later })
+
+    const res = await ps.table('students').get()
+
+    expect(res.first()).toEqual({ id: 2, last_name: 'Cached' })
+    expect(later).not.toHaveBeenCalled()
+    expect(server.requests).toHaveLength(0)
+  })
+
+  it('replaces responses', async () => {
+    ps.use({
+      afterResponse: (context, response) => context.type === 'request'
+        ? { ...response, data: { record: [] } }
+        : undefined,
+    })
+
+    expect((await ps.table('students').get()).toArray()).toEqual([])
+  })
+
+  it('observes and recovers from errors', async () => {
+    const errors: unknown[] = []
+
+    ps.use({
+      onError: (_context: MiddlewareContext, error): void => {
+        errors.push(error)
+      },
+    })
+
+    await expect(ps.table('students').id(5).get()).rejects.toThrow(NotFoundError)
+    expect(errors[0]).toBeInstanceOf(NotFoundError)
+
+    ps.use({
+      onError: () => ({ data: { tables: { students: { id: 5 } } } }),
+    })
+
+    expect((await ps.table('students').id(5).get()).first()).toEqual({ id: 5 })
+  })
+
+  it('keeps changes to the config out of the request', async () => {
+    const request = ps.table('students')
+
+    ps.use({
+      beforeRequest: (context): void => {
+        context.config.columnTypes = { id: 'string' }
+      },
+    })
+
+    expect((await request.get()).first()).toEqual({ id: '1', last_name: 'Smith' })
+    expect(request.getConfig().columnTypes).toBeNull()
+  })
+})
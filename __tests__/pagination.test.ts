@@ -0,0 +1,113 @@
+import { PowerSchool } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+const recordsFor = (page: number, pageSize: number, total: number): object[] => {
+  const start = (page - 1) * pageSize
+
+  return Array.from({ length: Math.max(0, Math.min(pageSize, total - start)) }, (_, i) => ({ id: start + i + 1 }))
+}
+
+describe('Pagination', () => {
+  let ps: PowerSchool
+  let requests: AxiosRequestConfig[]
+
+  const mockRecords = (total: number): void => {
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+
+      if (config.url.endsWith('/count')) {
+        return { data: { count: total } }
+      }
+
+      return { data: { record: recordsFor(config.params.page, config.params.pagesize, total) } }
+    })
+  }
+
+  const collect = async (iterable: AsyncIterable<object>): Promise<object[]> => {
+    const records = []
+
+    for await (const record of iterable) {
+      records.push(record)
+    }
+
+    return records
+  }
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requests = []
+  })
+
+  it('walks table pages until a short page is returned', async () => {
+    mockRecords(5)
+
+    const records = await collect(ps.table('u_custom_table').paginate(2))
+
+    expect(records).toHaveLength(5)
+    expect(requests).toHaveLength(3)
+    expect(requests.map(r => r.params.page)).toEqual([1, 2, 3])
+    expect(requests[0]).toHaveProperty('url', '/ws/schema/table/u_custom_table')
+    expect(requests[0]).toHaveProperty('params.projection', '*')
+  })
+
+  it('stops on an empty page when the total is a multiple of the page size', async () => {
+    mockRecords(4)
+
+    const records = await collect(ps.table('u_custom_table').each(2))
+
+    expect(records).toHaveLength(4)
+    expect(requests).toHaveLength(3)
+  })
+
+  it('uses the count to avoid requesting an extra page', async () => {
+    mockRecords(4)
+
+    const records = await collect(ps.table('u_custom_table').paginate(2, true))
+
+    expect(records).toHaveLength(4)
+    expect(requests.map(r => r.url)).toEqual([
+      '/ws/schema/table/u_custom_table/count',
+      '/ws/schema/table/u_custom_table',
+      '/ws/schema/table/u_custom_table',
+    ])
+    expect(requests[0]).toHaveProperty('method', 'get')
+    expect(requests[0].params).not.toHaveProperty('projection')
+  })
+
+  it('rejects page sizes that are not positive integers', async () => {
+    mockRecords(4)
+
+    for (const pageSize of [0, -1, 1.5, NaN]) {
+      expect(() => ps.table('u_custom_table').paginate(pageSize)).toThrow(`The page size must be a positive integer, received ${pageSize}`)
+      await expect(collect(ps.table('u_custom_table').pagesFor(ps.table('u_custom_table').getConfig(), pageSize, false))).rejects.toThrow('The page size must be a positive integer')
+    }
+
+    expect(requests).toEqual([])
+  })
+
+  it('paginates PowerQueries with their data', async () => {
+    mockRecords(3)
+
+    const records = await collect(ps.pq('com.archboard.test', { school_id: '1' }).paginate(2, true))
+
+    expect(records).toHaveLength(3)
+    expect(requests[0]).toHaveProperty('url', '/ws/schema/query/com.archboard.test/count')
+    expect(requests[0]).toHaveProperty('method', 'post')
+    expect(requests[1]).toHaveProperty('method', 'post')
+    expect(requests[1]).toHaveProperty('data', { school_id: '1' })
+  })
+
+  it('is not affected by changes to the client while iterating', async () => {
+    mockRecords(3)
+    const records = []
+
+    for await (const record of ps.table('u_custom_table').paginate(2)) {
+      ps.table('u_other_table')
+      records.push(record)
+    }
+
+    expect(records).toHaveLength(3)
+    expect(requests.every(r => r.url === '/ws/schema/table/u_custom_table')).toBe(true)
+  })
+})
@@ -0,0 +1,72 @@
+import { FakePowerSchool, MemoryTokenStore, PowerSchoolPool, TenantConfig } from '../src/main.js'
+
+describe('PowerSchool pool', () => {
+  let districtA: FakePowerSchool
+  let districtB: FakePowerSchool
+  let configs: Record<string, TenantConfig>
+
+  beforeEach(() => {
+    districtA = new FakePowerSchool({ tables: { students: [{ id: 1, last_name: 'Smith' }] } }, { clientId: 'a' })
+    districtB = new FakePowerSchool({ tables: { students: [{ id: 1, last_name: 'Jones' }] } }, { clientId: 'b' })
+    configs = {
+      'district-a': { url: 'https://a.powerschool.com', clientId: 'a', clientSecret: districtA.clientSecret, adapter: districtA.adapter, maxConcurrency: 2 },
+      'district-b': { url: 'https://b.powerschool.com', clientId: 'b', clientSecret: districtB.clientSecret, adapter: districtB.adapter },
+    }
+  })
+
+  it('creates a client per tenant with its own token', async () => {
+    const pool = new PowerSchoolPool(configs)
+
+    const [a, b] = await Promise.all([
+      pool.for('district-a').table('students').get(),
+      pool.for('district-b').table('students').get(),
+    ])
+
+    expect(a.first().last_name).toBe('Smith')
+    expect(b.first().last_name).toBe('Jones')
+    expect(pool.for('district-a')).toBe(pool.for('district-a'))
+    expect(pool.for('district-a')).not.toBe(pool.for('district-b'))
+    expect(districtA.requests.map(request => request.url)).toEqual(['/oauth/access_token', '/ws/schema/table/students'])
+    expect(districtB.requests.map(request => request.url)).toEqual(['/oauth/access_token', '/ws/schema/table/students'])
+    expect(pool.for('district-a').options.maxConcurrency).toBe(2)
+    expect(pool.for('district-b').options.maxConcurrency).toBeUndefined()
+    expect(pool.tenants()).toEqual(['district-a', 'district-b'])
+  })
+
+  it('creates clients lazily from a provider with shared defaults', () => {
+    const provider = jest.fn((tenant: string) => configs[tenant])
+    const tokenStore = new MemoryTokenStore
+    const pool = new PowerSchoolPool(provider, { defaults: { tokenStore, tokenRefreshBuffer: 30 } })
+
+    expect(provider).not.toHaveBeenCalled()
+    expect(pool.for('district-a').options).toMatchObject({ tokenStore, tokenRefreshBuffer: 30, maxConcurrency: 2 })
+    pool.for('district-a')
+    expect(provider).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects unknown tenants', () => {
+    const pool = new PowerSchoolPool(configs)
+
+    expect(() => pool.for('district-c')).toThrow('No PowerSchool config was found for the tenant "district-c"')
+    expect(pool.has('district-c')).toBe(false)
+  })
+
+  it('evicts idle clients', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const pool = new PowerSchoolPool(configs, { idleTimeout: 500 })
+    const first = pool.for('district-a')
+    pool.for('district-b')
+
+    now.mockReturnValue(1400)
+    pool.for('district-b')
+    now.mockReturnValue(1600)
+
+    expect(pool.evictIdle()).toEqual(['district-a'])
+    expect(pool.has('district-b')).toBe(true)
+    expect(pool.for('district-a')).not.toBe(first)
+    expect(pool.evict('district-b')).toBe(true)
+    expect(pool.size).toBe(1)
+
+    now.mockRestore()
+  })
+})
@@ -0,0 +1,80 @@
+import { PowerQuery, PowerQueryError, PowerSchool } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+interface StudentRow {
+  dcid: string
+  lastfirst: string
+}
+
+describe('PowerQuery registry', () => {
+  let ps: PowerSchool
+  let requests: AxiosRequestConfig[]
+
+  const studentsBySchool = PowerQuery.define({
+    name: 'com.example.plugin.students_by_school',
+    args: {
+      school_id: 'number',
+      active: { type: 'boolean', optional: true },
+      entered_after: { type: 'date', optional: true },
+    },
+    pageSize: 2,
+  }).returns<StudentRow>()
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requests = []
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+      const records = config.params.page === 1
+        ? [{ dcid: '1', lastfirst: 'Doe, Jane' }, { dcid: '2', lastfirst: 'Doe, John' }]
+        : [{ dcid: '3', lastfirst: 'Roe, Richard' }]
+
+      return { data: { name: 'Students', record: records } }
+    })
+  })
+
+  it('sends the query with cast arguments and paginates the records', async () => {
+    const queries = ps.queries({ studentsBySchool })
+
+    const students: StudentRow[] = await queries.studentsBySchool({ school_id: 1, active: true, entered_after: new Date(2023, 7, 1) })
+
+    expect(students.map(s => s.dcid)).toEqual(['1', '2', '3'])
+    expect(requests).toHaveLength(2)
+    expect(requests[0]).toHaveProperty('method', 'post')
+    expect(requests[0]).toHaveProperty('url', '/ws/schema/query/com.example.plugin.students_by_school')
+    expect(requests[0].data).toEqual({ school_id: '1', active: '1', entered_after: '2023-08-01' })
+    expect(requests[0].params).toMatchObject({ page: 1, pagesize: 2 })
+  })
+
+  it('leaves out optional arguments', () => {
+    expect(studentsBySchool.validate({ school_id: 5 })).toEqual({ school_id: '5' })
+  })
+
+  it('rejects unknown, missing and mistyped arguments', () => {
+    expect(() => studentsBySchool.validate({ school_id: 1, schoolid: 1 })).toThrow(PowerQueryError)
+    expect(() => studentsBySchool.validate({ school_id: 1, schoolid: 1 })).toThrow('Unknown argument "schoolid"')
+    expect(() => studentsBySchool.validate({})).toThrow('Missing argument "school_id"')
+    expect(() => studentsBySchool.validate({ school_id: '1' })).toThrow('Argument "school_id" for com.example.plugin.students_by_school must be a number')
+    expect(requests).toHaveLength(0)
+  })
+
+  it('types the arguments of the query functions', async () => {
+    const queries = ps.queries({ studentsBySchool })
+
+    // @ts-expect-error school_id must be a number
+    await expect(queries.studentsBySchool({ school_id: '1' })).rejects.toThrow(PowerQueryError)
+    // @ts-expect-error schoolid is not an argument
+    await expect(queries.studentsBySchool({ school_id: 1, schoolid: 1 })).rejects.toThrow(PowerQueryError)
+  })
+
+  it('allows queries without arguments', async () => {
+    const queries = ps.queries({
+      allStudents: PowerQuery.define({ name: 'com.example.plugin.all_students' }),
+    })
+
+    await queries.allStudents()
+
+    expect(requests[0].data).toEqual({})
+  })
+})
@@ -0,0 +1,85 @@
+import { PowerSchool, QueryExpression, QueryExpressionError, where } from '../src/main.js'
+
+describe('Query expressions', () => {
+  it('renders comparison operators', () => {
+    expect(where('grade_level').eq(9).toString()).toBe('grade_level==9')
+    expect(where('grade_level').ne(9).toString()).toBe('grade_level!=9')
+    expect(where('grade_level').gt(9).toString()).toBe('grade_level=gt=9')
+    expect(where('grade_level').gte(9).toString()).toBe('grade_level=ge=9')
+    expect(where('grade_level').lt(9).toString()).toBe('grade_level=lt=9')
+    expect(where('grade_level').lte(9).toString()).toBe('grade_level=le=9')
+  })
+
+  it('combines conditions', () => {
+    const expression = where('students.grade_level').gte(9)
+      .and('students.enroll_status').eq(0)
+      .and(where('cc.course_number').eq('MUSIC'))
+
+    expect(expression.toString()).toBe('students.grade_level=ge=9;students.enroll_status==0;cc.course_number==MUSIC')
+    expect(expression.toArray()).toHaveLength(3)
+  })
+
+  it('does not modify an expression when adding to it', () => {
+    const base = where('grade_level').gte(9)
+    base.and('enroll_status').eq(0)
+
+    expect(base.toString()).toBe('grade_level=ge=9')
+  })
+
+  it('renders lists, ranges, nulls and dates', () => {
+    expect(where('id').in([1, 2, 3]).toString()).toBe('id=in=(1,2,3)')
+    expect(where('grade_level').between(9, 12).toString()).toBe('grade_level=ge=9;grade_level=le=12')
+    expect(where('exitdate').isNull().toString()).toBe('exitdate==null')
+    expect(where('exitdate').isNotNull().toString()).toBe('exitdate!=null')
+    expect(where('entrydate').gte(new Date(2024, 7, 1)).toString()).toBe('entrydate=ge=2024-08-01')
+    expect(where('allow_webaccess').eq(true).toString()).toBe('allow_webaccess==1')
+  })
+
+  it('renders wildcard matches', () => {
+    expect(where('allergies').contains('peanut butter').toString()).toBe('allergies==*peanut butter*')
+    expect(where('last_name').startsWith('Sm').toString()).toBe('last_name==Sm*')
+    expect(where('last_name').endsWith('th').toString()).toBe('last_name==*th')
+    expect(where('last_name').like('Sm*th').toString()).toBe('last_name==Sm*th')
+  })
+
+  it('rejects values that would break the expression', () => {
+    expect(() => where('last_name').eq('Smith;id==1')).toThrow(QueryExpressionError)
+    expect(() => where('last_name').eq('Sm*')).toThrow(QueryExpressionError)
+    expect(() => where('last_name').in(['a,b'])).toThrow(QueryExpressionError)
+    expect(() => where('last_name').in([])).toThrow(QueryExpressionError)
+    expect(() => where('last_name').eq(null)).toThrow(QueryExpressionError)
+    expect(() => where('grade_level').eq(NaN)).toThrow(QueryExpressionError)
+    expect(() => where('entrydate').eq(new Date('nope'))).toThrow(QueryExpressionError)
+    expect(() => where('grade level')).toThrow(QueryExpressionError)
+  })
+
+  it('rejects empty values, operators and parentheses in every comparison', () => {
+    const comparisons: Array<(value: string) => QueryExpression> = [
+      (value): QueryExpression => where('last_name').eq(value),
+      (value): QueryExpression => where('last_name').ne(value),
+      (value): QueryExpression => where('last_name').gt(value),
+      (value): QueryExpression => where('last_name').lte(value),
+      (value): QueryExpression => where('last_name').between(value, 'Z'),
+      (value): QueryExpression => where('last_name').in([value]),
+      (value): QueryExpression => where('last_name').like(value),
+      (value): QueryExpression => where('last_name').contains(value),
+    ]
+
+    for (const compare of comparisons) {
+      expect(() => compare('')).toThrow(`An empty value can't be compared to "last_name"`)
+      expect(() => compare('a=b')).toThrow('contains a reserved character')
+      expect(() => compare('a==b')).toThrow('contains a reserved character')
+      expect(() => compare('Smith (Jr)')).toThrow('contains a reserved character')
+      expect(() => compare('a)')).toThrow('contains a reserved character')
+    }
+  })
+
+  it('can be passed to q and filter', () => {
+    const ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+
+    expect(ps.table('students').q(where('grade_level').gte(9)).getAxiosRequestConfig())
+      .toHaveProperty('params.q', 'grade_level=ge=9')
+    expect(ps.pq('com.archboard.test').filter(QueryExpression.where('students.grade_level').eq(8)).getAxiosRequestConfig())
+      .toHaveProperty('params.$q', 'students.grade_level==8')
+  })
+})
@@ -0,0 +1,76 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FakePowerSchool, NotFoundError, PowerSchool, RecordingError, RecordingMode } from '../src/main.js'
+
+describe('Recording', () => {
+  let server: FakePowerSchool
+  let dir: string
+  let path: string
+
+  beforeEach(async () => {
+    server = new FakePowerSchool({
+      tables: { students: [{ id: 1, last_name: 'Smith' }, { id: 2, last_name: 'Jones' }] },
+    })
+    dir = await mkdtemp(join(tmpdir(), 'powerschool-'))
+    path = join(dir, 'fixtures', 'students.json')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  const client = (mode: RecordingMode): PowerSchool => new PowerSchool(server.url, server.clientId, server.clientSecret, {
+    adapter: server.adapter,
+    recording: { mode, path },
+  })
+
+  const record = async (): Promise<PowerSchool> => {
+    const ps = client('record')
+
+    await ps.table('students').q('id==1').get()
+    await ps.table('students').id(2).put(null, { tables: { students: { last_name: 'Brown' } } })
+    await ps.table('students').q('id==2').get()
+    await expect(ps.table('students').id(9).get()).rejects.toThrow(NotFoundError)
+
+    return ps
+  }
+
+  it('records interactions without credentials', async () => {
+    const ps = await record()
+    const file = await readFile(path, 'utf8')
+
+    expect(ps.getRecording().getInteractions()).toHaveLength(5)
+    expect(JSON.parse(file).interactions[1]).toMatchObject({
+      request: { method: 'GET', endpoint: '/ws/schema/table/students', params: { q: 'id==1', projection: '*' } },
+      response: { status: 200 },
+    })
+    expect(file).not.toContain(server.clientSecret)
+    expect(file).not.toContain(ps.getToken())
+    expect(JSON.parse(file).interactions[0].response.data.access_token).toBe('[REDACTED]')
+  })
+
+  it('replays interactions without a server', async () => {
+    await record()
+    server.requests.length = 0
+
+    const ps = client('replay')
+
+    expect((await ps.table('students').q('id==1').get()).first()).toEqual({ id: '1', last_name: 'Smith' })
+    await ps.table('students').id(2).put(null, { tables: { students: { last_name: 'Brown' } } })
+    expect((await ps.table('students').q('id==2').get()).first()).toEqual({ id: '2', last_name: 'Brown' })
+    await expect(ps.table('students').id(9).get()).rejects.toThrow(NotFoundError)
+    expect(server.requests).toEqual([])
+  })
+
+  it('fails loudly on unmatched requests', async () => {
+    await record()
+
+    const ps = client('replay')
+
+    await expect(ps.table('students').q('id==3').get()).rejects.toThrow(RecordingError)
+    await expect(ps.table('students').q('id==3').get()).rejects.toThrow(`No recorded response in ${path} matches GET /ws/schema/table/students`)
+    await expect(client('replay').table('students').id(2).put(null, { tables: { students: { last_name: 'Green' } } }))
+      .rejects.toThrow(RecordingError)
+  })
+})
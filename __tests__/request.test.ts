@@ -0,0 +1,82 @@
+import { PowerSchool, PowerSchoolRequest } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+describe('Independent requests', () => {
+  let ps: PowerSchool
+  let requests: AxiosRequestConfig[]
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requests = []
+
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      await new Promise(resolve => setTimeout(resolve, Math.random() * 5))
+      requests.push(config)
+
+      return { data: { record: [{ url: config.url }] } }
+    })
+  })
+
+  it('creates a new request for each table', () => {
+    const students = ps.table('students')
+    const cc = ps.table('cc')
+
+    expect(students).toBeInstanceOf(PowerSchoolRequest)
+    expect(students).not.toBe(cc)
+    expect(students.getAxiosRequestConfig()).toHaveProperty('url', '/ws/schema/table/students')
+    expect(students.getAxiosRequestConfig()).toHaveProperty('headers.Authorization', 'Bearer token')
+  })
+
+  it('does not change a request when building from it', () => {
+    const base = ps.table('students').projection(['dcid', 'last_name'])
+    const ninth = base.q('grade_level==9')
+    const tenth = base.q('grade_level==10').pageSize(5)
+
+    expect(base.getAxiosRequestConfig().params).toEqual({ projection: 'dcid,last_name' })
+    expect(ninth.getAxiosRequestConfig().params).toEqual({ projection: 'dcid,last_name', q: 'grade_level==9' })
+    expect(tenth.getAxiosRequestConfig().params).toEqual({ projection: 'dcid,last_name', q: 'grade_level==10', pagesize: 5 })
+  })
+
+  it('sends concurrent requests without clobbering each other', async () => {
+    const tables = ['students', 'cc', 'sections', 'terms', 'u_custom_table']
+
+    const responses = await Promise.all(tables.map((table, id) => ps.table(table).id(id + 1).q(`id==${id + 1}`).get()))
+
+    expect(responses.map(res => res.first().url)).toEqual(tables.map((table, id) => `/ws/schema/table/${table}/${id + 1}`))
+
+    for (const config of requests) {
+      const id = config.url.split('/').pop()
+      expect(config.params.q).toBe(`id==${id}`)
+    }
+  })
+
+  it('keeps the data of concurrent PowerQueries separate', async () => {
+    await Promise.all([1, 2, 3].map(school => ps.request().pq('com.archboard.students', { school_id: school }).send()))
+
+    expect(requests.map(config => config.data.school_id).sort()).toEqual(['1', '2', '3'])
+  })
+
+  it('does not leak params into the next request', () => {
+    ps.table('students').q('grade_level==9').page(2)
+
+    expect(ps.table('cc').getAxiosRequestConfig().params).toEqual({ projection: '*' })
+  })
+
+  it('keeps the fluent client working for sequential scripts', async () => {
+    const res = await ps.setTable('students')
+      .q('grade_level==9')
+      .get()
+
+    expect(res.first()).toEqual({ url: '/ws/schema/table/students' })
+    expect(requests[0].params).toEqual({ projection: '*', q: 'grade_level==9' })
+  })
+
+  it('tracks the table and id of table endpoints', () => {
+    const config = ps.table('u_custom_table').id(4).getConfig()
+
+    expect(config.table).toBe('u_custom_table')
+    expect(config.id).toBe(4)
+    expect(ps.request().to('/ws/schema/table/u_custom_table/').getConfig().table).toBe('u_custom_table')
+  })
+})
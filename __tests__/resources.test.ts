@@ -0,0 +1,75 @@
+import { PowerSchool, where } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+describe('Resources', () => {
+  let ps: PowerSchool
+  let requests: AxiosRequestConfig[]
+
+  const respondWith = (...responses: object[]): void => {
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+
+      return { data: responses.shift() ?? {} }
+    })
+  }
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requests = []
+  })
+
+  it('retrieves a student with expansions and extensions', async () => {
+    respondWith({ student: { id: 1, name: { first_name: 'Jo', last_name: 'Smith' } } })
+
+    const student = await ps.students.get(1, { expansions: ['demographics', 'phones'], extensions: 'studentcorefields' })
+
+    expect(student.name.last_name).toBe('Smith')
+    expect(requests[0]).toHaveProperty('url', '/ws/v1/student/1')
+    expect(requests[0]).toHaveProperty('method', 'get')
+    expect(requests[0].params).toEqual({
+      expansions: 'demographics,phones',
+      extensions: 'studentcorefields',
+    })
+  })
+
+  it('retrieves every page of a school collection', async () => {
+    respondWith(
+      { sections: { section: [{ id: 1 }, { id: 2 }] } },
+      { sections: { section: { id: 3 } } },
+    )
+
+    const sections = await ps.schools.sections(5, { pageSize: 2, q: where('term_id').eq(3400) })
+
+    expect(sections.map(section => section.id)).toEqual([1, 2, 3])
+    expect(requests.map(r => r.url)).toEqual(['/ws/v1/school/5/section', '/ws/v1/school/5/section'])
+    expect(requests[1].params).toEqual({ q: 'term_id==3400', page: 2, pagesize: 2 })
+  })
+
+  it('handles empty collections', async () => {
+    respondWith({ staffs: '' })
+
+    expect(await ps.schools.staff(5)).toEqual([])
+  })
+
+  it('retrieves the district and its schools', async () => {
+    respondWith(
+      { district: { name: 'Archboard' } },
+      { schools: { '@expansions': 'school_boundary', school: [{ id: 1, name: 'High School' }] } },
+    )
+
+    const [district, schools] = await Promise.all([ps.district.get(), ps.district.schools()])
+
+    expect(district.name).toBe('Archboard')
+    expect(schools).toEqual([{ id: 1, name: 'High School' }])
+  })
+
+  it('retrieves section enrollments', async () => {
+    respondWith({ section_enrollments: { section_enrollment: [{ id: 1, section_id: 4, student_id: 2 }] } })
+
+    const enrollments = await ps.sections.enrollments(4)
+
+    expect(enrollments[0].student_id).toBe(2)
+    expect(requests[0]).toHaveProperty('url', '/ws/v1/section/4/section_enrollment')
+  })
+})
@@ -0,0 +1,82 @@
+import { PowerSchoolResponse } from '../src/main.js'
+
+describe('PowerSchoolResponse', () => {
+  const tableResponse = {
+    name: 'u_custom_table',
+    record: [
+      { id: 1, name: 'u_custom_table', tables: { u_custom_table: { id: '1', studentsdcid: '10', term: '3400' } } },
+      { id: 2, name: 'u_custom_table', tables: { u_custom_table: { id: '2', studentsdcid: '11', term: '3400' } } },
+    ],
+    '@extensions': '',
+  }
+
+  it('flattens table records', () => {
+    const res = new PowerSchoolResponse(tableResponse, { pageKey: 'record', table: 'u_custom_table' })
+
+    expect(res.toArray()).toEqual([
+      { id: '1', studentsdcid: '10', term: '3400' },
+      { id: '2', studentsdcid: '11', term: '3400' },
+    ])
+    expect(res.count).toBe(2)
+    expect([...res]).toHaveLength(2)
+  })
+
+  it('flattens a single table record', () => {
+    const res = new PowerSchoolResponse({ id: 3, tables: { u_custom_table: { notes: 'hello' } } }, { table: 'u_custom_table' })
+
+    expect(res.first()).toEqual({ id: 3, notes: 'hello' })
+  })
+
+  it('merges the tables of PowerQuery records', () => {
+    const res = new PowerSchoolResponse({
+      record: [
+        { tables: { students: { dcid: '1', last_name: 'Smith' }, cc: { course_number: 'MUSIC' } } },
+      ],
+    }, { pageKey: 'record' })
+
+    expect(res.first()).toEqual({ dcid: '1', last_name: 'Smith', course_number: 'MUSIC' })
+  })
+
+  it('unwraps REST collections', () => {
+    const res = new PowerSchoolResponse({
+      students: {
+        '@expansions': 'demographics, addresses',
+        student: [
+          { id: 1, local_id: 100 },
+          { id: 2, local_id: 200 },
+        ],
+      },
+    })
+
+    expect(res.pluck('local_id')).toEqual([100, 200])
+    expect(res.keyBy('id')).toEqual({
+      1: { id: 1, local_id: 100 },
+      2: { id: 2, local_id: 200 },
+    })
+    expect(res.map(student => student.id * 2)).toEqual([2, 4])
+  })
+
+  it('unwraps a REST collection with a single record', () => {
+    const res = new PowerSchoolResponse({ section_enrollments: { section_enrollment: { id: 5 } } })
+
+    expect(res.toArray()).toEqual([{ id: 5 }])
+  })
+
+  it('unwraps a single REST resource', () => {
+    const res = new PowerSchoolResponse({ student: { id: 1, name: { first_name: 'Jo' } } })
+
+    expect(res.toArray()).toEqual([{ id: 1, name: { first_name: 'Jo' } }])
+  })
+
+  it('treats empty envelopes as empty', () => {
+    expect(new PowerSchoolResponse({ students: '' }).isEmpty()).toBe(true)
+    expect(new PowerSchoolResponse({ students: { '@expansions': 'phones' } }).isEmpty()).toBe(true)
+    expect(new PowerSchoolResponse(null).isEmpty()).toBe(true)
+  })
+
+  it('reads counts', () => {
+    expect(new PowerSchoolResponse({ count: 12 }).count).toBe(12)
+    expect(new PowerSchoolResponse({ resource: { count: '7' } }).count).toBe(7)
+    expect(new PowerSchoolResponse({ count: 12 }).toArray()).toEqual([])
+  })
+})
@@ -0,0 +1,162 @@
+import { PowerSchool, PowerSchoolError, RateLimiter, RetryPolicy, ServerError } from '../src/main.js'
+
+const failure = (status: number, headers: object = {}): Error => Object.assign(new Error(`Request failed with status code ${status}`), {
+  response: { status, data: {}, headers },
+})
+
+describe('Retries and rate limiting', () => {
+  describe('RetryPolicy', () => {
+    it('retries configured statuses and network errors until the attempts run out', () => {
+      const policy = new RetryPolicy({ maxAttempts: 3 })
+
+      expect(policy.shouldRetry(new PowerSchoolError('', { status: 503 }), 'get', '/ws/v1/district', 1)).toBe(true)
+      expect(policy.shouldRetry(new PowerSchoolError(''), 'get', '/ws/v1/district', 2)).toBe(true)
+      expect(policy.shouldRetry(new PowerSchoolError('', { status: 503 }), 'get', '/ws/v1/district', 3)).toBe(false)
+      expect(policy.shouldRetry(new PowerSchoolError('', { status: 404 }), 'get', '/ws/v1/district', 1)).toBe(false)
+      expect(policy.shouldRetry(new Error(), 'get', '/ws/v1/district', 1)).toBe(false)
+    })
+
+    it('only retries writes when allowed', () => {
+      const err = new PowerSchoolError('', { status: 503 })
+
+      expect(new RetryPolicy({ maxAttempts: 3 }).shouldRetry(err, 'post', '/ws/schema/table/u_custom_table', 1)).toBe(false)
+      expect(new RetryPolicy({ maxAttempts: 3 }).shouldRetry(err, 'post', '/ws/schema/query/com.archboard.test', 1)).toBe(true)
+      expect(new RetryPolicy({ maxAttempts: 3, retryWrites: true }).shouldRetry(err, 'put', '/ws/schema/table/u_custom_table/1', 1)).toBe(true)
+    })
+
+    it('backs off exponentially up to the max delay', () => {
+      const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 350, jitter: false })
+      const err = new PowerSchoolError('', { status: 503 })
+
+      expect([1, 2, 3, 4].map(attempt => policy.delay(err, attempt))).toEqual([100, 200, 350, 350])
+    })
+
+    it('keeps jittered delays within the backoff', () => {
+      const policy = new RetryPolicy({ baseDelay: 100 })
+      const delay = policy.delay(new PowerSchoolError('', { status: 503 }), 3)
+
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThanOrEqual(400)
+    })
+
+    it('honors Retry-After in seconds or as a date', () => {
+      const policy = new RetryPolicy({ baseDelay: 100, jitter: false })
+      const date = new Date(Date.now() + 5000).toUTCString()
+
+      expect(policy.delay(new PowerSchoolError('', { status: 429, headers: { 'retry-after': '2' } }), 1)).toBe(2000)
+      expect(policy.delay(new PowerSchoolError('', { status: 429, headers: { 'retry-after': date } }), 1)).toBeGreaterThan(3000)
+    })
+  })
+
+  describe('RateLimiter', () => {
+    it('rejects limits that would hold every task', () => {
+      for (const limit of [0, -1, NaN]) {
+        expect(() => new RateLimiter(limit)).toThrow(RangeError)
+        expect(() => new RateLimiter(undefined, limit)).toThrow(`The requestsPerSecond must be a positive number, received ${limit}`)
+      }
+
+      expect(() => new PowerSchool('https://example.powerschool.com', 'id', 'secret', { maxConcurrency: 0 })).toThrow(RangeError)
+      expect(new RateLimiter(1, Infinity).maxConcurrency).toBe(1)
+    })
+
+    it('limits concurrency', async () => {
+      const limiter = new RateLimiter(2)
+      let running = 0
+      let max = 0
+
+      await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+        running++
+        max = Math.max(max, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+      })))
+
+      expect(max).toBe(2)
+      expect(limiter.running()).toBe(0)
+    })
+
+    it('spaces requests to the rate', async () => {
+      const limiter = new RateLimiter(Infinity, 50)
+      const starts: number[] = []
+
+      await Promise.all(Array.from({ length: 4 }, () => limiter.schedule(async () => {
+        starts.push(Date.now())
+      })))
+
+      expect(starts[3] - starts[0]).toBeGreaterThanOrEqual(55)
+    })
+
+    it('releases the slot when a task fails', async () => {
+      const limiter = new RateLimiter(1)
+
+      await expect(limiter.schedule(async () => {
+        throw new Error('failed')
+      })).rejects.toThrow('failed')
+      await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok')
+    })
+  })
+
+  describe('PowerSchool', () => {
+    const create = (options: object): PowerSchool => new PowerSchool('https://example.powerschool.com', 'id', 'secret', options)
+      .setToken('token')
+
+    it('retries failed reads', async () => {
+      const ps = create({ retry: { maxAttempts: 3, baseDelay: 1 } })
+      const request = jest.spyOn(ps['client'], 'request')
+        .mockRejectedValueOnce(failure(503))
+        .mockRejectedValueOnce(failure(429, { 'Retry-After': '0' }))
+        .mockResolvedValue({ data: { count: 1 } })
+
+      const res = await ps.get('/ws/v1/district')
+
+      expect(res.rawData).toEqual({ count: 1 })
+      expect(request).toHaveBeenCalledTimes(3)
+    })
+
+    it('throws the last error when the attempts run out', async () => {
+      const ps = create({ retry: { maxAttempts: 2, baseDelay: 1 } })
+      const request = jest.spyOn(ps['client'], 'request').mockRejectedValue(failure(502))
+
+      await expect(ps.get('/ws/v1/district')).rejects.toBeInstanceOf(ServerError)
+      expect(request).toHaveBeenCalledTimes(2)
+    })
+
+    it('does not retry writes by default', async () => {
+      const ps = create({ retry: { maxAttempts: 3, baseDelay: 1 } })
+      const request = jest.spyOn(ps['client'], 'request').mockRejectedValue(failure(503))
+
+      await expect(ps.table('u_custom_table').post(null, {})).rejects.toBeInstanceOf(ServerError)
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('does not retry by default', async () => {
+      const ps = create({})
+      const request = jest.spyOn(ps['client'], 'request').mockRejectedValue(failure(503))
+
+      await expect(ps.get('/ws/v1/district')).rejects.toBeInstanceOf(ServerError)
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('shares the concurrency limit between requests', async () => {
+      const ps = create({ maxConcurrency: 1 })
+      let running = 0
+      let max = 0
+      jest.spyOn(ps['client'], 'request').mockImplementation(async () => {
+        running++
+        max = Math.max(max, running)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        running--
+
+        return { data: {} }
+      })
+
+      await Promise.all([
+        ps.get('/ws/v1/district'),
+        ps.get('/ws/v1/district/school'),
+        ps.get('/ws/v1/school/1'),
+      ])
+
+      expect(max).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { FakePowerSchool, SchoolYear, findCurrentTerm, where, yearIdOf } from '../src/main.js'
+
+describe('School years', () => {
+  const terms = [
+    { id: 3400, name: '2024-2025', school_id: 1, start_year: 2024, start_date: '2024-08-15', end_date: '2025-06-01' },
+    { id: 3401, name: 'S1', school_id: 1, start_year: 2024, start_date: '2024-08-15', end_date: '2024-12-20' },
+    { id: 3402, name: 'S2', school_id: 1, start_year: 2024, start_date: '2025-01-06', end_date: '2025-06-01' },
+    { id: 3300, name: '2023-2024', school_id: 1, start_year: 2023, start_date: '2023-08-15', end_date: '2024-06-01' },
+    { id: 3400, name: '2024-2025', school_id: 2, start_year: 2024, start_date: '2024-08-20', end_date: '2025-06-05' },
+  ]
+
+  it('converts between school years, yearids and termids', () => {
+    const year = new SchoolYear(2024)
+
+    expect(year.yearId).toBe(34)
+    expect(year.termId).toBe(3400)
+    expect(year.toString()).toBe('2024-2025')
+    expect(SchoolYear.fromYearId(34)).toEqual(year)
+    expect(SchoolYear.fromTermId(3402)).toEqual(year)
+    expect(yearIdOf(-3401)).toBe(34)
+    expect(year.hasTerm(3401)).toBe(true)
+    expect(year.hasTerm(3501)).toBe(false)
+    expect(year.previous().yearId).toBe(33)
+    expect(year.next().termId).toBe(3500)
+  })
+
+  it('finds the school year of a date', () => {
+    expect(SchoolYear.forDate(new Date(2024, 6, 1)).startYear).toBe(2024)
+    expect(SchoolYear.forDate(new Date(2024, 5, 30)).startYear).toBe(2023)
+    expect(SchoolYear.forDate(new Date(2024, 7, 1), { startMonth: 9 }).startYear).toBe(2023)
+  })
+
+  it('finds the most specific term of a date', () => {
+    expect(findCurrentTerm(terms.slice(0, 4), new Date(2024, 9, 1))).toHaveProperty('id', 3401)
+    expect(findCurrentTerm(terms.slice(0, 4), new Date(2024, 11, 30))).toHaveProperty('id', 3400)
+    expect(findCurrentTerm(terms.slice(0, 4), new Date(2025, 6, 30))).toBeNull()
+  })
+
+  it('builds filters for school years', () => {
+    const year = new SchoolYear(2024)
+
+    expect(where('yearid').isYear(year).toString()).toBe('yearid==34')
+    expect(where('termid').inYear(year).toString()).toBe('termid=ge=3400;termid=le=3499')
+    expect(where('yearid').isYear().toString()).toBe(`yearid==${SchoolYear.current().yearId}`)
+  })
+
+  it('retrieves the terms of a school', async () => {
+    const ps = new FakePowerSchool({ terms }).client()
+
+    expect((await ps.terms.forSchool(1)).map(term => term.id)).toEqual([3400, 3401, 3402, 3300])
+    expect((await ps.terms.forSchool(1, new SchoolYear(2023))).map(term => term.id)).toEqual([3300])
+    expect(await ps.terms.current(1, new Date(2025, 1, 1))).toHaveProperty('name', 'S2')
+  })
+})
@@ -0,0 +1,106 @@
+import { PowerSchool, Serializer } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+describe('Serialization', () => {
+  let requests: AxiosRequestConfig[]
+
+  const client = (options = {}): PowerSchool => {
+    const ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret', { serialization: options })
+      .setToken('token')
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+
+      return { data: {} }
+    })
+
+    return ps
+  }
+
+  beforeEach(() => {
+    requests = []
+  })
+
+  it('casts the data of writes by default', async () => {
+    const ps = client()
+
+    await ps.table('u_custom_table').post(null, {
+      tables: {
+        u_custom_table: {
+          studentsdcid: 10,
+          active: true,
+          entered: new Date(2023, 7, 1),
+          updated_at: new Date(2023, 7, 1, 13, 45, 10),
+          notes: null,
+          codes: ['a', 'b'],
+          skipped: undefined,
+        },
+      },
+    })
+
+    expect(requests[0].data).toEqual({
+      tables: {
+        u_custom_table: {
+          studentsdcid: '10',
+          active: '1',
+          entered: '2023-08-01',
+          updated_at: '2023-08-01 13:45:10',
+          notes: '',
+          codes: 'a,b',
+        },
+      },
+    })
+  })
+
+  it('keeps arrays of records and converts their fields', async () => {
+    const ps = client()
+
+    await ps.request().post('/ws/v1/student', {
+      students: {
+        student: [
+          { client_uid: 1, action: 'INSERT', name: { first_name: 'Ana', last_name: 'Smith' }, school_enrollment: { enroll_date: new Date(2023, 7, 1), grade_level: 9 } },
+          { client_uid: 2, action: 'INSERT', name: { first_name: 'Ben', last_name: 'Jones' }, ethnicity: null },
+        ],
+      },
+    })
+
+    expect(requests[0].data).toEqual({
+      students: {
+        student: [
+          { client_uid: '1', action: 'INSERT', name: { first_name: 'Ana', last_name: 'Smith' }, school_enrollment: { enroll_date: '2023-08-01', grade_level: '9' } },
+          { client_uid: '2', action: 'INSERT', name: { first_name: 'Ben', last_name: 'Jones' }, ethnicity: '' },
+        ],
+      },
+    })
+  })
+
+  it('applies the policy to data items and put and patch', async () => {
+    const ps = client({ nulls: 'omit', arrays: 'each', dates: 'timestamp' })
+    const request = ps.table('u_custom_table').id(1)
+      .setDataItem('notes', null)
+      .setDataItem('codes', [1, true])
+      .setDataItem('entered', new Date(2023, 7, 1))
+
+    expect(request.getConfig().data).toEqual({ codes: ['1', '1'], entered: '2023-08-01 00:00:00' })
+
+    await request.put(null, { notes: null, grade: 9 })
+    await request.patch(null, { notes: 'x' })
+
+    expect(requests.map(config => config.data)).toEqual([{ grade: '9' }, { notes: 'x' }])
+  })
+
+  it('writes dates in the time zone of the district', () => {
+    const utc = new Serializer({ timeZone: 'UTC' })
+    const chicago = new Serializer({ timeZone: 'America/Chicago' })
+    const date = new Date(Date.UTC(2023, 7, 1, 3, 30, 0))
+
+    expect(utc.formatDate(date)).toBe('2023-08-01 03:30:00')
+    expect(chicago.formatDate(date)).toBe('2023-07-31 22:30:00')
+    expect(chicago.formatDate(new Date(Date.UTC(2023, 7, 1, 5, 0, 0)))).toBe('2023-08-01')
+    expect(chicago.formatDate(new Date(Date.UTC(2023, 7, 1, 5, 0, 0, 250)))).toBe('2023-08-01 00:00:00.250')
+    expect(new Serializer({ timeZone: 'America/Chicago', dates: 'date' }).formatDate(date)).toBe('2023-07-31')
+  })
+
+  it('keeps nulls when asked', () => {
+    expect(new Serializer({ nulls: 'null' }).serialize({ notes: null, nested: { value: null } })).toEqual({ notes: null, nested: { value: null } })
+  })
+})
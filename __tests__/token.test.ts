@@ -0,0 +1,92 @@
+import { AuthenticationError, PowerSchool } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+describe('Token lifecycle', () => {
+  let ps: PowerSchool
+  let tokenRequests: number
+
+  const unauthorized = (): Error => Object.assign(new Error('Request failed with status code 401'), {
+    response: { status: 401, data: {} },
+  })
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+    tokenRequests = 0
+
+    jest.spyOn(ps['client'], 'post').mockImplementation(async () => {
+      tokenRequests++
+
+      return { data: { access_token: `token-${tokenRequests}`, expires_in: '3600' } }
+    })
+  })
+
+  it('records the expiration of a retrieved token', async () => {
+    const before = Date.now()
+    await ps.retrieveToken()
+
+    expect(ps.tokenSet()).toBe(true)
+    expect(ps.tokenExpired()).toBe(false)
+    expect(ps.getTokenExpiration().getTime()).toBeGreaterThanOrEqual(before + 3600 * 1000)
+  })
+
+  it('considers a token within the refresh buffer expired', () => {
+    ps.setToken('token', 30)
+    expect(ps.tokenExpired()).toBe(true)
+
+    ps.setToken('token', 120)
+    expect(ps.tokenExpired()).toBe(false)
+
+    ps.setToken('token')
+    expect(ps.tokenExpired()).toBe(false)
+  })
+
+  it('refreshes an expiring token before sending a request', async () => {
+    const request = jest.spyOn(ps['client'], 'request').mockResolvedValue({ data: {} })
+    ps.setToken('old-token', 10)
+
+    await ps.get('/ws/v1/district')
+
+    expect(tokenRequests).toBe(1)
+    expect(request.mock.calls[0][0]).toHaveProperty('headers.Authorization', 'Bearer token-1')
+  })
+
+  it('shares one token request between concurrent requests', async () => {
+    jest.spyOn(ps['client'], 'request').mockResolvedValue({ data: {} })
+
+    await Promise.all([
+      ps.retrieveToken(),
+      ps.retrieveToken(),
+      ps.retrieveToken(true),
+    ])
+
+    expect(tokenRequests).toBe(1)
+  })
+
+  it('refreshes the token and replays the request once after a 401', async () => {
+    const headers: string[] = []
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      headers.push(config.headers.Authorization as string)
+
+      if (headers.length === 1) {
+        throw unauthorized()
+      }
+
+      return { data: { count: 1 } }
+    })
+    ps.setToken('revoked-token', 3600)
+
+    const res = await ps.get('/ws/v1/district')
+
+    expect(res.rawData).toEqual({ count: 1 })
+    expect(headers).toEqual(['Bearer revoked-token', 'Bearer token-1'])
+  })
+
+  it('does not replay more than once', async () => {
+    const request = jest.spyOn(ps['client'], 'request').mockRejectedValue(unauthorized())
+    ps.setToken('revoked-token', 3600)
+
+    await expect(ps.get('/ws/v1/district')).rejects.toBeInstanceOf(AuthenticationError)
+    expect(request).toHaveBeenCalledTimes(2)
+    expect(tokenRequests).toBe(1)
+  })
+})
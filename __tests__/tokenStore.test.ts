@@ -0,0 +1,118 @@
+import { FileTokenStore, MemoryTokenStore, PowerSchool } from '../src/main.js'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+describe('Token stores', () => {
+  describe('MemoryTokenStore', () => {
+    it('stores and clears tokens', async () => {
+      const store = new MemoryTokenStore()
+      await store.set('key', { accessToken: 'token', expiresAt: Date.now() + 60000 })
+
+      expect(await store.get('key')).toHaveProperty('accessToken', 'token')
+
+      await store.clear('key')
+
+      expect(await store.get('key')).toBeNull()
+    })
+
+    it('does not return expired tokens', async () => {
+      const store = new MemoryTokenStore()
+      await store.set('key', { accessToken: 'token', expiresAt: Date.now() - 1 })
+
+      expect(await store.get('key')).toBeNull()
+    })
+  })
+
+  describe('FileTokenStore', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'powerschool-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('persists tokens between instances', async () => {
+      const path = join(dir, 'nested', 'tokens.json')
+      await new FileTokenStore(path).set('key', { accessToken: 'token', expiresAt: null })
+
+      expect(await new FileTokenStore(path).get('key')).toEqual({ accessToken: 'token', expiresAt: null })
+      expect(JSON.parse(await readFile(path, 'utf8'))).toHaveProperty('key.accessToken', 'token')
+    })
+
+    it('treats a missing file as empty and clears tokens', async () => {
+      const store = new FileTokenStore(join(dir, 'tokens.json'))
+
+      expect(await store.get('key')).toBeNull()
+
+      await store.set('key', { accessToken: 'token', expiresAt: Date.now() + 60000 })
+      await store.set('other', { accessToken: 'other', expiresAt: Date.now() + 60000 })
+      await store.clear('key')
+
+      expect(await store.get('key')).toBeNull()
+      expect(await store.get('other')).toHaveProperty('accessToken', 'other')
+    })
+
+    it('keeps every token written at once by stores sharing a file', async () => {
+      const path = join(dir, 'tokens.json')
+      const keys = ['a', 'b', 'c', 'd']
+
+      await Promise.all(keys.map(key => new FileTokenStore(path).set(key, { accessToken: key, expiresAt: null })))
+      await Promise.all([new FileTokenStore(path).clear('a'), new FileTokenStore(path).clear('b')])
+
+      expect(Object.keys(JSON.parse(await readFile(path, 'utf8')))).toEqual(['c', 'd'])
+      expect(await readdir(dir)).toEqual(['tokens.json'])
+    })
+  })
+
+  describe('PowerSchool', () => {
+    const create = (store: MemoryTokenStore): [PowerSchool, jest.SpyInstance] => {
+      const ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret', { tokenStore: store })
+      const post = jest.spyOn(ps['client'], 'post')
+        .mockResolvedValue({ data: { access_token: 'new-token', expires_in: '3600' } })
+
+      return [ps, post]
+    }
+
+    it('reuses a token from a shared store', async () => {
+      const store = new MemoryTokenStore()
+      const [first, firstPost] = create(store)
+      const [second, secondPost] = create(store)
+
+      await first.retrieveToken()
+      await second.retrieveToken()
+
+      expect(firstPost).toHaveBeenCalledTimes(1)
+      expect(secondPost).not.toHaveBeenCalled()
+      expect(second.tokenSet()).toBe(true)
+      expect(second.getTokenExpiration()).toEqual(first.getTokenExpiration())
+    })
+
+    it('requests a new token when the stored one is about to expire', async () => {
+      const store = new MemoryTokenStore()
+      await store.set('https://example.powerschool.com|id', { accessToken: 'old-token', expiresAt: Date.now() + 1000 })
+      const [ps, post] = create(store)
+
+      await ps.retrieveToken()
+
+      expect(post).toHaveBeenCalledTimes(1)
+      expect(await store.get('https://example.powerschool.com|id')).toHaveProperty('accessToken', 'new-token')
+    })
+
+    it('skips the store when forced and clears it', async () => {
+      const store = new MemoryTokenStore()
+      await store.set('https://example.powerschool.com|id', { accessToken: 'old-token', expiresAt: null })
+      const [ps, post] = create(store)
+
+      await ps.retrieveToken(true)
+      expect(post).toHaveBeenCalledTimes(1)
+
+      await ps.clearToken()
+      expect(ps.tokenSet()).toBe(false)
+      expect(await store.get('https://example.powerschool.com|id')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { PowerSchool } from '../src/main.js'
+import { AxiosRequestConfig } from 'axios'
+
+describe('Upserts', () => {
+  let ps: PowerSchool
+  let requests: AxiosRequestConfig[]
+
+  const existing = [
+    { id: '11', studentsdcid: '1', term: '3400', notes: 'same' },
+    { id: '12', studentsdcid: '2', term: '3400', notes: 'old' },
+    { id: '13', studentsdcid: '3', term: '3300', notes: 'other term' },
+  ]
+
+  beforeEach(() => {
+    ps = new PowerSchool('https://example.powerschool.com', 'id', 'secret')
+      .setToken('token')
+    requests = []
+    jest.spyOn(ps['client'], 'request').mockImplementation(async (config: AxiosRequestConfig) => {
+      requests.push(config)
+
+      if (config.method === 'get') {
+        return {
+          data: {
+            name: 'u_custom_table',
+            record: existing.map(fields => ({ id: Number(fields.id), name: 'u_custom_table', tables: { u_custom_table: fields } })),
+          },
+        }
+      }
+
+      const id = config.method === 'post' ? 20 : Number(config.url.split('/').pop())
+
+      return { data: { result: { status: 'SUCCESS', action: config.method === 'post' ? 'INSERT' : 'UPDATE', success_message: { id } } } }
+    })
+  })
+
+  const rows = [
+    { studentsdcid: 1, term: 3400, notes: 'same' },
+    { studentsdcid: 2, term: 3400, notes: 'new' },
+    { studentsdcid: 3, term: 3400, notes: 'created' },
+  ]
+
+  it('looks up records by their keys and inserts or updates rows', async () => {
+    const result = await ps.table('u_custom_table').upsert(rows, { keys: ['studentsdcid', 'term'] })
+
+    expect(requests[0]).toHaveProperty('method', 'get')
+    expect(requests[0]).toHaveProperty('url', '/ws/schema/table/u_custom_table')
+    expect(requests[0].params.q).toBe('studentsdcid=in=(1,2,3);term=in=(3400)')
+    expect(result.created).toEqual([{ index: 2, row: rows[2], id: 20 }])
+    expect(result.updated.map(u => [u.index, u.id])).toEqual([[0, 11], [1, 12]])
+    expect(result.unchanged).toEqual([])
+    expect(result.failed).toEqual([])
+
+    const put = requests.find(r => r.url.endsWith('/12'))
+    expect(put).toHaveProperty('method', 'put')
+    expect(put.data).toEqual({ tables: { u_custom_table: { studentsdcid: '2', term: '3400', notes: 'new' } } })
+  })
+
+  it('skips rows that match their record', async () => {
+    const result = await ps.table('u_custom_table').upsert(rows, { keys: ['studentsdcid', 'term'], skipUnchanged: true })
+
+    expect(result.unchanged).toEqual([{ index: 0, row: rows[0], id: 11 }])
+    expect(result.updated.map(u => u.index)).toEqual([1])
+    expect(requests.some(r => r.url.endsWith('/11'))).toBe(false)
+  })
+
+  it('looks up records in batches', async () => {
+    await ps.table('u_custom_table').upsert(rows, { keys: ['studentsdcid'], lookupSize: 2 })
+
+    expect(requests.filter(r => r.method === 'get').map(r => r.params.q)).toEqual([
+      'studentsdcid=in=(1,2)',
+      'studentsdcid=in=(3)',
+    ])
+  })
+
+  it('fails rows with missing, invalid or repeated keys without writing them', async () => {
+    const mixed = [
+      { studentsdcid: 2, term: 3400, notes: 'new' },
+      { studentsdcid: null, term: 3400, notes: 'no student' },
+      { studentsdcid: '', term: 3400, notes: 'empty student' },
+      { studentsdcid: '4,5', term: 3400, notes: 'list' },
+      { studentsdcid: 'a(b)', term: 3400, notes: 'parentheses' },
+      { studentsdcid: 6, term: 3400, notes: 'created' },
+      { studentsdcid: 6, term: 3400, notes: 'created again' },
+    ]
+    const result = await ps.table('u_custom_table').upsert(mixed, { keys: ['studentsdcid', 'term'] })
+
+    expect(requests.filter(r => r.method === 'get').map(r => r.params.q)).toEqual(['studentsdcid=in=(2,6);term=in=(3400)'])
+    expect(result.updated.map(u => u.index)).toEqual([0])
+    expect(result.created.map(c => c.index)).toEqual([5])
+    expect(result.failed.map(f => [f.index, f.message])).toEqual([
+      [1, 'Rows being upserted must have a value for "studentsdcid"'],
+      [2, 'Rows being upserted must have a value for "studentsdcid"'],
+      [3, 'The value "4,5" for "studentsdcid" contains a reserved character'],
+      [4, 'The value "a(b)" for "studentsdcid" contains a reserved character'],
+      [6, 'An earlier row has the same values for "studentsdcid", "term"'],
+    ])
+    expect(requests.filter(r => r.method === 'post')).toHaveLength(1)
+  })
+
+    it('requires keys', async () => {
+    await expect(ps.table('u_custom_table').upsert(rows, { keys: [] })).rejects.toThrow('At least one key is required to upsert rows')
+  })
+})
@@ -0,0 +1,398 @@
+import { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+import { PowerSchoolRecord, PowerSchoolResponse } from './PowerSchoolResponse.js'
+import { PowerSchoolErrorDetail, PowerSchoolError, parseErrorDetails } from './PowerSchoolError.js'
+import { RateLimiter } from './RateLimiter.js'
+import { RequestBuilder } from './RequestBuilder.js'
+import { QueryExpression, QueryExpressionError, where } from './QueryExpression.js'
+
+export interface BulkOptions {
+  /**
+   * The number of rows in each chunk. Rows are still sent one request
+   * each; chunks only set how progress is reported. Defaults to 50.
+   */
+  chunkSize?: number
+
+  /**
+   * The number of chunks written at once, which is the number
+   * of requests in flight. Defaults to 4.
+   */
+  concurrency?: number
+
+  /**
+   * The field holding the id of rows being updated. Defaults to `id`.
+   */
+  idKey?: string
+
+  /**
+   * Called after each chunk has been written.
+   */
+  onChunk?: (completed: number, total: number) => void
+}
+
+export interface BulkSuccess<T> {
+  index: number
+  row: T
+  id: number|null
+}
+
+export interface BulkFailure<T> {
+  index: number
+  row: T
+  message: string
+  errors: PowerSchoolErrorDetail[]
+  error: Error
+}
+
+export interface BulkResult<T> {
+  total: number
+  succeeded: BulkSuccess<T>[]
+  failed: BulkFailure<T>[]
+}
+
+export interface UpsertOptions extends BulkOptions {
+  /**
+   * The fields that identify a record, such as `['studentsdcid', 'term']`.
+   */
+  keys: string[]
+
+  /**
+   * Whether to skip updating records whose fields already match the row.
+   */
+  skipUnchanged?: boolean
+
+  /**
+   * The number of rows whose records are looked up at once. Defaults to 50.
+   */
+  lookupSize?: number
+}
+
+export interface UpsertResult<T> {
+  total: number
+  created: BulkSuccess<T>[]
+  updated: BulkSuccess<T>[]
+  unchanged: BulkSuccess<T>[]
+  failed: BulkFailure<T>[]
+}
+
+type BulkAction = 'insert'|'update'
+
+/**
+ * Writes many rows to a table. PowerSchool's table endpoints take a single
+ * record per request, so every row is sent as its own request; there is
+ * no batch endpoint to send a chunk in one request. Rows are split into
+ * chunks whose rows are written in order, with a number of chunks written
+ * at once. Failures are collected rather than thrown so every row is attempted.
+ */
+export class BulkWriter<T extends object> {
+  protected request: RequestBuilder
+  protected options: BulkOptions
+
+  constructor(request: RequestBuilder, options: BulkOptions = {}) {
+    this.request = request
+    this.options = {
+      chunkSize: 50,
+      concurrency: 4,
+      idKey: 'id',
+      ...options,
+    }
+  }
+
+  public insert(rows: T[]): Promise<BulkResult<T>> {
+    return this.write('insert', rows)
+  }
+
+  public update(rows: T[]): Promise<BulkResult<T>> {
+    return this.write('update', rows)
+  }
+
+  /**
+   * Looks up existing records by the key fields, then inserts rows
+   * without a record and updates the rest with the record's id.
+   * Rows without a value for every key, with key values that can't be
+   * queried, or with the same key values as an earlier row fail
+   * without being looked up or written.
+   *
+   * @param rows The rows to write
+   * @param options The key fields and whether to skip rows that haven't changed
+   * @returns {Promise<UpsertResult<T>>}
+   */
+  public async upsert(rows: T[], options: UpsertOptions): Promise<UpsertResult<T>> {
+    if (!options.keys || options.keys.length === 0) {
+      throw new Error('At least one key is required to upsert rows')
+    }
+
+    const result: UpsertResult<T> = { total: rows.length, created: [], updated: [], unchanged: [], failed: [] }
+    const seen = new Set<string>()
+    const keyed: number[] = []
+    const inserts: number[] = []
+    const updates: number[] = []
+
+    rows.forEach((row, index) => {
+      const error = this.keyError(row, options.keys, seen)
+
+      if (error) {
+        result.failed.push({ index, row, message: error.message, errors: [], error })
+      } else {
+        keyed.push(index)
+      }
+    })
+
+    const existing = await this.lookup(keyed.map(index => rows[index]), options.keys, options.lookupSize ?? 50)
+
+    keyed.forEach(index => {
+      const row = rows[index]
+      const record = existing.get(this.keyFor(row, options.keys))
+
+      if (!record) {
+        inserts.push(index)
+      } else if (options.skipUnchanged && !this.differs(row, record)) {
+        result.unchanged.push({ index, row, id: Number(record.id) })
+      } else {
+        updates.push(index)
+      }
+    })
+
+    const created = await this.insert(inserts.map(index => rows[index]))
+    const updated = await this.update(updates.map(index => ({
+      ...rows[index],
+      [this.options.idKey]: existing.get(this.keyFor(rows[index], options.keys)).id,
+    })))
+
+    const remap = <R extends { index: number, row: T }>(entries: R[], indexes: number[]): R[] => {
+      return entries.map(entry => ({ ...entry, index: indexes[entry.index], row: rows[indexes[entry.index]] }))
+    }
+
+    result.created = remap(created.succeeded, inserts)
+    result.updated = remap(updated.succeeded, updates)
+    result.failed = [...result.failed, ...remap(created.failed, inserts), ...remap(updated.failed, updates)]
+      .sort((a, b) => a.index - b.index)
+
+    return result
+  }
+
+  /**
+   * Finds the existing records for rows, keyed by their key values.
+   * Records are queried in batches using `=in=` on each key.
+   *
+   * @param rows The rows being written
+   * @param keys The key fields
+   * @param size The number of rows to look up at once
+   * @returns {Promise<Map<string, PowerSchoolRecord>>}
+   */
+  protected async lookup(rows: T[], keys: string[], size: number): Promise<Map<string, PowerSchoolRecord>> {
+    const base = this.request.getConfig()
+    const records = new Map<string, PowerSchoolRecord>()
+
+    if (!base.table) {
+      throw new Error('A table must be set before writing rows')
+    }
+
+    for (let start = 0; start < rows.length; start += size) {
+      const batch = rows.slice(start, start + size)
+      const expression = keys.reduce((expression: QueryExpression, key) => {
+        const values = [...new Set(batch.map(row => this.keyValue(row, key)))]
+
+        return expression.and(where(key).in(values))
+      }, new QueryExpression())
+
+      const config = base.clone()
+      config.endpoint = `/ws/schema/table/${base.table}`
+      config.id = null
+      config.method = 'get'
+      config.data = {}
+      config.params = { ...config.params, q: expression.toString() }
+
+      for await (const record of this.request.paginateConfig(config, 100, false)) {
+        const key = this.keyFor(record as T, keys)
+
+        if (!records.has(key)) {
+          records.set(key, record)
+        }
+      }
+    }
+
+    return records
+  }
+
+  protected keyFor(row: T, keys: string[]): string {
+    return JSON.stringify(keys.map(key => this.keyValue(row, key)))
+  }
+
+  protected keyValue(row: T, key: string): string {
+    return this.request.castValueToString(row[key] ?? row[key.toLowerCase()])
+  }
+
+  /**
+   * Checks that a row can be looked up by its key values
+   * and that no earlier row has the same values.
+   *
+   * @param row The row being written
+   * @param keys The key fields
+   * @param seen The keys of earlier rows, which the row's key is added to
+   * @returns {Error|null}
+   */
+  protected keyError(row: T, keys: string[], seen: Set<string>): Error|null {
+    for (const key of keys) {
+      const value = this.keyValue(row, key)
+      const condition = where(key)
+
+      if (value === '') {
+        return new Error(`Rows being upserted must have a value for "${key}"`)
+      }
+
+      try {
+        condition.in([value])
+      } catch (err) {
+        if (err instanceof QueryExpressionError) {
+          return err
+        }
+
+        throw err
+      }
+    }
+
+    const key = this.keyFor(row, keys)
+
+    if (seen.has(key)) {
+      return new Error(`An earlier row has the same values for ${keys.map(name => `"${name}"`).join(', ')}`)
+    }
+
+    seen.add(key)
+
+    return null
+  }
+
+  /**
+   * Determines whether any field of a row differs from the existing record.
+   * Both are compared as the strings PowerSchool stores.
+   *
+   * @param row The row being written
+   * @param record The existing record
+   * @returns {boolean}
+   */
+  protected differs(row: T, record: PowerSchoolRecord): boolean {
+    return Object.entries(row)
+      .filter(([key]) => key !== this.options.idKey)
+      .some(([key, value]) => this.request.castValueToString(value) !== this.request.castValueToString(record[key] ?? record[key.toLowerCase()]))
+  }
+
+  protected async write(action: BulkAction, rows: T[]): Promise<BulkResult<T>> {
+    const base = this.request.getConfig()
+
+    if (!base.table) {
+      throw new Error('A table must be set before writing rows')
+    }
+
+    const result: BulkResult<T> = { total: rows.length, succeeded: [], failed: [] }
+    const limiter = new RateLimiter(this.options.concurrency)
+    const chunks: number[][] = []
+    let completed = 0
+
+    for (let start = 0; start < rows.length; start += this.options.chunkSize) {
+      chunks.push(rows.slice(start, start + this.options.chunkSize).map((_, i) => start + i))
+    }
+
+    await Promise.all(chunks.map(chunk => limiter.schedule(async () => {
+      for (const index of chunk) {
+        await this.writeRow(action, base, rows[index], index, result)
+      }
+
+      this.options.onChunk?.(++completed, chunks.length)
+    })))
+
+    result.succeeded.sort((a, b) => a.index - b.index)
+    result.failed.sort((a, b) => a.index - b.index)
+
+    return result
+  }
+
+  protected async writeRow(action: BulkAction, base: PowerSchoolRequestConfig, row: T, index: number, result: BulkResult<T>): Promise<void> {
+    try {
+      const res = await this.request.execute(this.rowConfig(action, base, row))
+      const outcome = this.parseOutcome(res)
+
+      if (outcome.failed) {
+        result.failed.push({ index, row, message: outcome.message, errors: outcome.errors, error: new Error(outcome.message) })
+        return
+      }
+
+      result.succeeded.push({ index, row, id: outcome.id ?? this.rowId(row) })
+    } catch (err) {
+      result.failed.push({
+        index,
+        row,
+        message: err.message,
+        errors: err instanceof PowerSchoolError ? err.errors : [],
+        error: err,
+      })
+    }
+  }
+
+  /**
+   * Builds the request for a row. Inserts are posted to the table
+   * and updates are put to the row's id.
+   *
+   * @param action Whether the row is inserted or updated
+   * @param base The config of the table request
+   * @param row The row to write
+   * @returns {PowerSchoolRequestConfig}
+   */
+  protected rowConfig(action: BulkAction, base: PowerSchoolRequestConfig, row: T): PowerSchoolRequestConfig {
+    const config = base.clone()
+    const fields = { ...row }
+    config.endpoint = `/ws/schema/table/${base.table}`
+    config.includeProjection = false
+    config.params = {}
+    config.method = 'post'
+
+    if (action === 'update') {
+      const id = this.rowId(row)
+
+      if (id === null) {
+        throw new Error(`Rows being updated must have an "${this.options.idKey}"`)
+      }
+
+      delete fields[this.options.idKey]
+      config.endpoint += `/${id}`
+      config.id = id
+      config.method = 'put'
+    }
+
+    config.data = {
+      tables: {
+        [base.table]: this.request.castValuesToString(fields),
+      },
+    }
+
+    return config
+  }
+
+  protected rowId(row: T): number|null {
+    const id = Number(row[this.options.idKey])
+
+    return row[this.options.idKey] === undefined || row[this.options.idKey] === null || isNaN(id)
+      ? null
+      : id
+  }
+
+  /**
+   * Reads PowerSchool's result for a written record, which reports
+   * a status along with the new record's id or the reasons it failed.
+   *
+   * @param res The response of the write
+   * @returns {object}
+   */
+  protected parseOutcome(res: PowerSchoolResponse): { failed: boolean, id: number|null, message: string, errors: PowerSchoolErrorDetail[] } {
+    const result = [].concat(res.rawData?.['result'] ?? [])[0]
+    const failed = typeof result?.status === 'string' && result.status.toUpperCase() !== 'SUCCESS'
+    const errors = failed ? parseErrorDetails(res.rawData) : []
+    const id = Number(result?.success_message?.id ?? res.rawData?.['id'])
+
+    return {
+      failed,
+      id: isNaN(id) ? null : id,
+      message: failed ? errors[0]?.message || `The ${String(result.action ?? 'write').toLowerCase()} failed` : null,
+      errors,
+    }
+  }
+}
@@ -0,0 +1,36 @@
+export interface CachedResponse {
+  /**
+   * The JSON of the response data.
+   */
+  body: string
+
+  /**
+   * The table the response was read from, or null for other endpoints.
+   */
+  table: string|null
+
+  /**
+   * When the response expires as a timestamp in milliseconds.
+   */
+  expiresAt: number
+}
+
+/**
+ * Keeps cached responses so they can be shared
+ * between clients, processes and restarts.
+ */
+export interface CacheStore {
+  /**
+   * Gets a cached response. Expired responses should not be returned.
+   */
+  get(key: string): Promise<CachedResponse|null>
+
+  set(key: string, response: CachedResponse): Promise<void>
+
+  /**
+   * Removes every response read from a table.
+   */
+  deleteTable(table: string): Promise<void>
+
+  clear(): Promise<void>
+}
@@ -0,0 +1,262 @@
+import { PowerSchool } from './PowerSchool.js'
+import { VersionStore } from './VersionStore.js'
+import { MemoryVersionStore } from './MemoryVersionStore.js'
+
+export type ChangeType = 'insert'|'update'|'delete'
+
+export interface ChangeEvent {
+  type: ChangeType
+  table: string
+  id: number
+
+  /**
+   * The data version that includes the change.
+   */
+  version: number
+}
+
+export type ChangeHandler = (event: ChangeEvent) => void|Promise<void>
+
+export interface ChangeBatch {
+  /**
+   * The version the changes were requested from.
+   */
+  fromVersion: number
+  version: number
+  events: ChangeEvent[]
+}
+
+export interface ChangeFeedOptions {
+  /**
+   * The version to start from when the store doesn't have one.
+   */
+  initialVersion?: number
+
+  /**
+   * Where the current version is kept. Defaults to memory.
+   */
+  store?: VersionStore
+
+  /**
+   * The number of milliseconds between polls when started. Defaults to a minute.
+   */
+  interval?: number
+
+  /**
+   * Called with errors from polling. Polling continues after an error.
+   */
+  onError?: (err: unknown) => void
+}
+
+interface Listener {
+  type: ChangeType|'*'
+  table: string|null
+  handler: ChangeHandler
+}
+
+/**
+ * Follows a data subscription, calling handlers for each changed record.
+ * The version is only advanced and stored once every handler for a batch
+ * succeeds, so a failed or interrupted sync resumes from the same version.
+ */
+export class ChangeFeed {
+  client: PowerSchool
+  applicationName: string
+  options: ChangeFeedOptions
+  protected listeners: Listener[] = []
+  protected timer: NodeJS.Timeout = null
+  protected loop: number = 0
+  protected syncing: Promise<number> = null
+
+  constructor(client: PowerSchool, applicationName: string, options: ChangeFeedOptions = {}) {
+    this.client = client
+    this.applicationName = applicationName
+    this.options = {
+      initialVersion: 0,
+      store: new MemoryVersionStore,
+      interval: 60000,
+      ...options,
+    }
+  }
+
+  /**
+   * Adds a handler for changes of a type, optionally limited to a table.
+   *
+   * @param type The type of change or `*` for every change
+   * @param handler The handler, which may return a promise
+   * @param table The table whose changes should be handled
+   * @returns {this}
+   */
+  public on(type: ChangeType|'*', handler: ChangeHandler, table: string = null): this {
+    this.listeners.push({
+      type,
+      table: table ? table.toLowerCase() : null,
+      handler,
+    })
+
+    return this
+  }
+
+  /**
+   * Gets the version the next sync will start from.
+   *
+   * @returns {Promise<number>}
+   */
+  public async version(): Promise<number> {
+    return (await this.options.store.get(this.applicationName)) ?? this.options.initialVersion
+  }
+
+  /**
+   * Retrieves and handles changes until caught up.
+   * Only one sync runs at a time; concurrent calls share it.
+   *
+   * @returns {Promise<number>} The number of changes handled
+   */
+  public sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.catchUp()
+        .finally(() => {
+          this.syncing = null
+        })
+    }
+
+    return this.syncing
+  }
+
+  /**
+   * Starts polling for changes.
+   *
+   * @returns {this}
+   */
+  public start(): this {
+    if (this.timer) {
+      return this
+    }
+
+    // A poll of an earlier start may still be syncing; only the latest loop reschedules
+    const loop = ++this.loop
+    const poll = async (): Promise<void> => {
+      try {
+        await this.sync()
+      } catch (err) {
+        this.options.onError?.(err)
+      }
+
+      if (this.timer && this.loop === loop) {
+        this.timer = setTimeout(poll, this.options.interval)
+      }
+    }
+
+    this.timer = setTimeout(poll, 0)
+
+    return this
+  }
+
+  /**
+   * Stops polling. A sync that's in progress is allowed to finish.
+   *
+   * @returns {this}
+   */
+  public stop(): this {
+    clearTimeout(this.timer)
+    this.timer = null
+
+    return this
+  }
+
+  public running(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Retrieves the changes after a version.
+   *
+   * @param version The last version that was handled
+   * @returns {Promise<ChangeBatch>}
+   */
+  public async fetch(version: number): Promise<ChangeBatch> {
+    const res = await this.client.getDataSubscriptionChanges(this.applicationName, version)
+
+    return parseChanges(res.rawData, version)
+  }
+
+  protected async catchUp(): Promise<number> {
+    let version = await this.version()
+    let handled = 0
+
+    for (;;) {
+      const batch = await this.fetch(version)
+
+      for (const event of batch.events) {
+        await this.dispatch(event)
+      }
+
+      handled += batch.events.length
+
+      if (batch.version === version) {
+        return handled
+      }
+
+      version = batch.version
+      await this.options.store.set(this.applicationName, version)
+
+      if (batch.events.length === 0) {
+        return handled
+      }
+    }
+  }
+
+  protected async dispatch(event: ChangeEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      const typeMatches = listener.type === '*' || listener.type === event.type
+      const tableMatches = listener.table === null || listener.table === event.table
+
+      if (typeMatches && tableMatches) {
+        await listener.handler(event)
+      }
+    }
+  }
+}
+
+/**
+ * Parses the response of `/ws/dataversion/{application}/{version}`.
+ * Tables may list changed ids, which are treated as updates since
+ * PowerSchool doesn't say whether they were inserted, or group them
+ * by `insert`, `update` and `delete`. Ids under `deleted` are deletions.
+ *
+ * @param data The response data
+ * @param fromVersion The version the changes were requested from
+ * @returns {ChangeBatch}
+ */
+export const parseChanges = (data: object, fromVersion: number): ChangeBatch => {
+  const reported = Number(data?.['$dataversion'])
+  const version = isNaN(reported) ? fromVersion : reported
+  const events: ChangeEvent[] = []
+
+  const add = (type: ChangeType, table: string, ids: unknown): void => {
+    for (const entry of [].concat(ids ?? [])) {
+      const id = Number(typeof entry === 'object' && entry !== null ? entry.id ?? entry.dcid : entry)
+
+      if (!isNaN(id)) {
+        events.push({ type, table: table.toLowerCase(), id, version })
+      }
+    }
+  }
+
+  for (const [table, changes] of Object.entries(data?.['tables'] ?? {})) {
+    if (Array.isArray(changes) || typeof changes !== 'object' || changes === null) {
+      add('update', table, changes)
+      continue
+    }
+
+    add('insert', table, changes['insert'] ?? changes['inserted'])
+    add('update', table, changes['update'] ?? changes['updated'])
+    add('delete', table, changes['delete'] ?? changes['deleted'])
+  }
+
+  for (const [table, ids] of Object.entries(data?.['deleted'] ?? {})) {
+    add('delete', table, ids)
+  }
+
+  return { fromVersion, version, events }
+}
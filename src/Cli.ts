@@ -0,0 +1,412 @@
+import { homedir } from 'os'
+import { join } from 'path'
+import { PowerSchool, PowerSchoolOptions } from './PowerSchool.js'
+import { PowerSchoolError } from './PowerSchoolError.js'
+import { PowerSchoolRecord } from './PowerSchoolResponse.js'
+import { RequestBuilder } from './RequestBuilder.js'
+import { readJsonFile } from './jsonFile.js'
+import { columnsOf, csvRow, flattenRecord } from './csv.js'
+import { TableMetadata } from './TableMetadata.js'
+import { generateTableTypes } from './generateTableTypes.js'
+
+export type CliFormat = 'json'|'table'|'csv'
+
+export interface CliProfile {
+  url: string
+  clientId: string
+  clientSecret: string
+}
+
+export interface CliOptions {
+  /**
+   * The environment credentials are read from. Defaults to `process.env`.
+   */
+  env?: Record<string, string|undefined>
+
+  /**
+   * Where results are written. Defaults to `process.stdout`.
+   */
+  stdout?: { write(text: string): unknown }
+
+  /**
+   * Where errors are written. Defaults to `process.stderr`.
+   */
+  stderr?: { write(text: string): unknown }
+
+  /**
+   * Options passed to every client the CLI creates.
+   */
+  clientOptions?: PowerSchoolOptions
+}
+
+interface ParsedArguments {
+  positionals: string[]
+  options: Record<string, string[]>
+}
+
+export const usage = `Usage: node-powerschool <command> [options]
+
+Commands:
+  token                         Retrieve an access token
+  get <endpoint>                Retrieve every record of an endpoint
+  table <name>                  Retrieve every record of a table
+  pq <name>                     Run a PowerQuery
+  count <table|endpoint>        Count the records of a table or endpoint
+  changes <app> <version>       List the changes of a data subscription
+  types <table...>              Generate TypeScript interfaces for tables
+
+Options:
+  --q <expression>              Filter records with a query expression
+  --projection <fields>         The fields of table records to include
+  --arg <key=value>             An argument of a PowerQuery, may be repeated
+  --decoded                     Generate types of decoded records
+  --page-size <size>            The number of records per page (default 100)
+  --format <json|table|csv>     How results are printed (default json)
+  --profile <name>              The profile of the config file to use
+  --config <path>               The config file (default ~/.powerschool.json)
+  --url, --client-id, --client-secret
+                                Credentials, overriding the environment
+
+Credentials are read from POWERSCHOOL_URL, POWERSCHOOL_CLIENT_ID and
+POWERSCHOOL_CLIENT_SECRET, or from a profile of the config file:
+  { "default": { "url": "...", "clientId": "...", "clientSecret": "..." } }
+`
+
+/**
+ * Thrown when the command line is invalid, exiting with code 2.
+ */
+class CliUsageError extends Error {}
+
+const commands = ['token', 'get', 'table', 'pq', 'count', 'changes', 'types']
+
+/**
+ * Options given without a value.
+ */
+const flags = ['help', 'decoded']
+
+/**
+ * Options followed by a value.
+ */
+const options = ['q', 'projection', 'arg', 'page-size', 'format', 'profile', 'config', 'url', 'client-id', 'client-secret']
+
+/**
+ * The `node-powerschool` command-line tool.
+ */
+export class Cli {
+  protected env: Record<string, string|undefined>
+  protected stdout: { write(text: string): unknown }
+  protected stderr: { write(text: string): unknown }
+  protected clientOptions: PowerSchoolOptions
+
+  constructor(options: CliOptions = {}) {
+    this.env = options.env ?? process.env
+    this.stdout = options.stdout ?? process.stdout
+    this.stderr = options.stderr ?? process.stderr
+    this.clientOptions = options.clientOptions ?? {}
+  }
+
+  /**
+   * Runs a command, printing its results or the error that stopped it.
+   *
+   * @param argv The arguments after the program name
+   * @returns {Promise<number>} The exit code
+   */
+  public async run(argv: string[]): Promise<number> {
+    try {
+      const args = parseArguments(argv)
+      const [command, ...positionals] = args.positionals
+
+      if (command === 'help' || 'help' in args.options) {
+        this.stdout.write(usage)
+
+        return 0
+      }
+
+      if (!command) {
+        throw new CliUsageError('A command is required')
+      }
+
+      if (!commands.includes(command)) {
+        throw new CliUsageError(`Unknown command "${command}"`)
+      }
+
+      const format = this.option(args, 'format') ?? 'json'
+
+      if (!['json', 'table', 'csv'].includes(format)) {
+        throw new CliUsageError(`Unknown format "${format}"`)
+      }
+
+      const pageSize = this.pageSize(args)
+      const ps = await this.client(args)
+      const result = await this.execute(ps, command, positionals, args, pageSize)
+
+      this.stdout.write(typeof result === 'string' ? result : formatResult(result, format as CliFormat))
+
+      return 0
+    } catch (err) {
+      this.stderr.write(`Error: ${err.message}\n`)
+
+      if (err instanceof CliUsageError) {
+        this.stderr.write(`\n${usage}`)
+
+        return 2
+      }
+
+      if (err instanceof PowerSchoolError) {
+        for (const detail of err.errors) {
+          this.stderr.write(`  ${detail.field ? `${detail.field}: ` : ''}${detail.message}\n`)
+        }
+      }
+
+      return 1
+    }
+  }
+
+  protected async execute(ps: PowerSchool, command: string, positionals: string[], args: ParsedArguments, pageSize: number): Promise<unknown> {
+    const required = (index: number, name: string): string => {
+      if (!positionals[index]) {
+        throw new CliUsageError(`The ${command} command requires <${name}>`)
+      }
+
+      return positionals[index]
+    }
+
+    switch (command) {
+      case 'token':
+        await ps.retrieveToken()
+
+        return {
+          access_token: ps.getToken(),
+          expires_at: ps.getTokenExpiration()?.toISOString() ?? null,
+        }
+      case 'get':
+        return this.collect(this.filtered(ps.request().setEndpoint(required(0, 'endpoint')).setMethod('get'), args), pageSize)
+      case 'table':
+        return this.collect(this.filtered(ps.table(required(0, 'name')), args), pageSize)
+      case 'pq':
+        return this.collect(this.filtered(ps.request().pq(required(0, 'name'), this.queryArguments(args)), args), pageSize)
+      case 'count': {
+        const target = required(0, 'table|endpoint')
+        const request = target.startsWith('/')
+          ? ps.request().setEndpoint(target).setMethod('get')
+          : ps.table(target)
+        const res = await this.filtered(request, args).count()
+
+        return { count: res.count }
+      }
+      case 'changes': {
+        const version = Number(required(1, 'version'))
+
+        if (isNaN(version)) {
+          throw new CliUsageError(`The version must be a number, received "${positionals[1]}"`)
+        }
+
+        return (await ps.changes(required(0, 'app')).fetch(version)).events
+      }
+      case 'types':
+        return generateTableTypes(await this.tableMetadata(ps, [required(0, 'table'), ...positionals.slice(1)]), {
+          decoded: 'decoded' in args.options,
+        })
+    }
+
+    throw new CliUsageError(`Unknown command "${command}"`)
+  }
+
+  /**
+   * Creates a client from the credentials given as options,
+   * read from the environment or found in a config profile.
+   *
+   * @param args The parsed arguments
+   * @returns {Promise<PowerSchool>}
+   */
+  protected async client(args: ParsedArguments): Promise<PowerSchool> {
+    const profileName = this.option(args, 'profile') ?? this.env.POWERSCHOOL_PROFILE
+    const configPath = this.option(args, 'config') ?? this.env.POWERSCHOOL_CONFIG ?? join(homedir(), '.powerschool.json')
+    const profiles = await readJsonFile<CliProfile>(configPath)
+    const profile: Partial<CliProfile> = profiles[profileName ?? 'default'] ?? {}
+
+    if (profileName && !profiles[profileName]) {
+      throw new Error(`The profile "${profileName}" was not found in ${configPath}`)
+    }
+
+    // A chosen profile takes precedence over the environment, the default one doesn't
+    const [first, second] = profileName
+      ? [profile, { url: this.env.POWERSCHOOL_URL, clientId: this.env.POWERSCHOOL_CLIENT_ID, clientSecret: this.env.POWERSCHOOL_CLIENT_SECRET }]
+      : [{ url: this.env.POWERSCHOOL_URL, clientId: this.env.POWERSCHOOL_CLIENT_ID, clientSecret: this.env.POWERSCHOOL_CLIENT_SECRET }, profile]
+    const url = this.option(args, 'url') ?? first.url ?? second.url
+    const clientId = this.option(args, 'client-id') ?? first.clientId ?? second.clientId
+    const clientSecret = this.option(args, 'client-secret') ?? first.clientSecret ?? second.clientSecret
+
+    if (!url || !clientId || !clientSecret) {
+      throw new Error('Missing credentials. Set POWERSCHOOL_URL, POWERSCHOOL_CLIENT_ID and POWERSCHOOL_CLIENT_SECRET or use a profile.')
+    }
+
+    return new PowerSchool(url, clientId, clientSecret, this.clientOptions)
+  }
+
+  /**
+   * Retrieves the metadata of tables along with their extension tables.
+   *
+   * @param ps The client
+   * @param tables The names of the tables
+   * @returns {Promise<TableMetadata[]>}
+   */
+  protected async tableMetadata(ps: PowerSchool, tables: string[]): Promise<TableMetadata[]> {
+    const metadata = new Map<string, TableMetadata>()
+    const pending = tables.map(table => table.toLowerCase())
+
+    while (pending.length > 0) {
+      const table = pending.shift()
+
+      if (!metadata.has(table)) {
+        const result = await ps.metadata(table)
+        metadata.set(table, result)
+        pending.push(...result.extensions)
+      }
+    }
+
+    return [...metadata.values()]
+  }
+
+  protected filtered<T extends RequestBuilder>(request: T, args: ParsedArguments): T {
+    const q = this.option(args, 'q')
+    const projection = this.option(args, 'projection')
+
+    if (q) {
+      request = request.q(q)
+    }
+
+    if (projection) {
+      request = request.projection(projection)
+    }
+
+    return request
+  }
+
+  /**
+   * Reads the arguments of a PowerQuery given as `--arg key=value`.
+   *
+   * @param args The parsed arguments
+   * @returns {Record<string, string>}
+   * @throws {CliUsageError}
+   */
+  protected queryArguments(args: ParsedArguments): Record<string, string> {
+    const data: Record<string, string> = {}
+
+    for (const arg of args.options.arg ?? []) {
+      const index = arg.indexOf('=')
+
+      if (index < 1) {
+        throw new CliUsageError(`Arguments must be given as key=value, received "${arg}"`)
+      }
+
+      data[arg.slice(0, index)] = arg.slice(index + 1)
+    }
+
+    return data
+  }
+
+  protected async collect(request: RequestBuilder, pageSize: number): Promise<PowerSchoolRecord[]> {
+    const records: PowerSchoolRecord[] = []
+
+    for await (const record of request.paginate(pageSize)) {
+      records.push(record)
+    }
+
+    return records
+  }
+
+  /**
+   * Reads the page size, which must be a positive integer.
+   *
+   * @param args The parsed arguments
+   * @returns {number}
+   * @throws {CliUsageError}
+   */
+  protected pageSize(args: ParsedArguments): number {
+    const value = this.option(args, 'page-size') ?? '100'
+    const pageSize = Number(value)
+
+    if (!/^\d+$/.test(value) || pageSize < 1) {
+      throw new CliUsageError(`The --page-size option must be a positive integer, received "${value}"`)
+    }
+
+    return pageSize
+  }
+
+  protected option(args: ParsedArguments, name: string): string|undefined {
+    const values = args.options[name]
+
+    return values ? values[values.length - 1] : undefined
+  }
+}
+
+/**
+ * Splits arguments into positionals and options. Options are given as
+ * `--name value` or `--name=value` and keep every value when repeated.
+ *
+ * @param argv The arguments to parse
+ * @returns {ParsedArguments}
+ * @throws {CliUsageError} When an option is unknown or has no value
+ */
+const parseArguments = (argv: string[]): ParsedArguments => {
+  const parsed: ParsedArguments = { positionals: [], options: {} }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg)
+      continue
+    }
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2)
+
+    if (!flags.includes(name) && !options.includes(name)) {
+      throw new CliUsageError(`Unknown option "--${name}"`)
+    }
+
+    const value = inline ?? (flags.includes(name) ? '' : argv[++i])
+
+    if (value === undefined) {
+      throw new CliUsageError(`The --${name} option requires a value`)
+    }
+
+    parsed.options[name] = [...(parsed.options[name] ?? []), value]
+  }
+
+  return parsed
+}
+
+/**
+ * Prints a result as JSON, a text table or CSV.
+ *
+ * @param result The result of the command
+ * @param format The output format
+ * @returns {string}
+ */
+const formatResult = (result: unknown, format: CliFormat): string => {
+  if (format === 'json') {
+    return `${JSON.stringify(result, null, 2)}\n`
+  }
+
+  const records = (Array.isArray(result) ? result : [result]).map(record => flattenRecord(record))
+  const columns = columnsOf(records)
+
+  if (format === 'csv') {
+    return [columns, ...records.map(record => columns.map(column => record[column]))]
+      .map(csvRow)
+      .join('')
+  }
+
+  const rows = [columns, ...records.map(record => columns.map(column => {
+    const value = record[column]
+
+    return value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  }))]
+  const widths = columns.map((_, index) => Math.max(...rows.map(row => row[index].length)))
+
+  return rows
+    .map(row => row.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd())
+    .join('\n') + '\n'
+}
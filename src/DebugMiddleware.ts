@@ -0,0 +1,73 @@
+import { AxiosRequestConfig } from 'axios'
+import { Logger } from './Logger.js'
+import { Middleware, MiddlewareContext, MiddlewareResponse } from './Middleware.js'
+import { redact } from './redact.js'
+
+/**
+ * Logs every request a client sends once it has finished. Authorization
+ * headers and the secrets of the client are always redacted.
+ */
+export class DebugMiddleware implements Middleware {
+  protected logger: Logger
+  protected secrets: () => string[]
+
+  /**
+   * @param logger Where requests are logged
+   * @param secrets Gets the values to redact, such as the client secret and token
+   */
+  constructor(logger: Logger, secrets: () => string[] = (): string[] => []) {
+    this.logger = logger
+    this.secrets = secrets
+  }
+
+  public afterResponse = (context: MiddlewareContext, response: MiddlewareResponse): void => {
+    this.log(context, { status: response.status ?? null })
+  }
+
+  public onError = (context: MiddlewareContext, error: unknown): void => {
+    this.log(context, {
+      status: (error as { status?: number })?.status ?? null,
+      error: (error as Error)?.message ?? String(error),
+    })
+  }
+
+  protected log(context: MiddlewareContext, outcome: { status: number|null, error?: string }): void {
+    const { axiosConfig } = context
+    const method = (axiosConfig.method ?? 'get').toUpperCase()
+    const details = redact({
+      type: context.type,
+      method,
+      url: axiosConfig.url,
+      params: axiosConfig.params ?? {},
+      headers: axiosConfig.headers ?? {},
+      bodySize: bodySize(axiosConfig),
+      duration: context.duration,
+      ...outcome,
+    }, this.secrets())
+    const summary = `${method} ${details.url} ${outcome.status ?? 'failed'} ${context.duration}ms`
+
+    this.logger.debug(outcome.error ? `${summary}: ${details.error}` : summary, details)
+  }
+}
+
+/**
+ * The number of bytes of the body of a request.
+ *
+ * @param config The config given to axios
+ * @returns {number}
+ */
+const bodySize = (config: AxiosRequestConfig): number => {
+  const data = config.data
+
+  if (data === undefined || data === null) {
+    return 0
+  }
+
+  if (typeof data === 'string') {
+    return Buffer.byteLength(data)
+  }
+
+  return typeof data === 'object' && Object.keys(data).length === 0
+    ? 0
+    : Buffer.byteLength(JSON.stringify(data))
+}
@@ -0,0 +1,156 @@
+import { once } from 'events'
+import type { Writable } from 'stream'
+import { PowerSchoolRecord } from './PowerSchoolResponse.js'
+import { RequestBuilder } from './RequestBuilder.js'
+import { csvRow, flattenRecord } from './csv.js'
+
+export type ExportFormat = 'csv'|'ndjson'
+
+export interface ExportProgress {
+  pages: number
+  records: number
+}
+
+export interface ExportOptions {
+  /**
+   * How records are written. Defaults to `csv`.
+   */
+  format?: ExportFormat
+
+  /**
+   * The fields to write, using dots for nested fields such as `name.last_name`.
+   * Defaults to the projection of the request or the fields of the first record.
+   */
+  columns?: string[]
+
+  /**
+   * New names for fields, keyed by the field.
+   */
+  rename?: Record<string, string>
+
+  /**
+   * The number of records requested per page. Defaults to 100.
+   */
+  pageSize?: number
+
+  /**
+   * Whether to end the stream once every record is written. Defaults to true.
+   */
+  end?: boolean
+
+  /**
+   * Called after each page has been written.
+   */
+  onProgress?: (progress: ExportProgress) => void
+}
+
+export type ExportResult = ExportProgress
+
+/**
+ * Streams the pages of a request into a writable stream, waiting for
+ * the stream to drain so only a page of records is held at once.
+ */
+export class Exporter {
+  protected request: RequestBuilder
+  protected options: ExportOptions
+  protected columns: string[]|null
+
+  constructor(request: RequestBuilder, options: ExportOptions = {}) {
+    this.request = request
+    this.options = {
+      format: 'csv',
+      pageSize: 100,
+      end: true,
+      ...options,
+    }
+    this.columns = this.options.columns ?? this.projectionColumns()
+  }
+
+  /**
+   * Writes every record to a stream.
+   *
+   * @param stream The stream the records are written to
+   * @returns {Promise<ExportResult>}
+   */
+  public async to(stream: Writable): Promise<ExportResult> {
+    const progress: ExportProgress = { pages: 0, records: 0 }
+    let headerWritten = false
+
+    for await (const res of this.request.pages(this.options.pageSize)) {
+      const records = res.toArray()
+
+      if (this.options.format === 'csv' && !headerWritten && (this.columns || records.length > 0)) {
+        this.columns = this.columns ?? Object.keys(flattenRecord(records[0]))
+        await this.write(stream, csvRow(this.columns.map(column => this.options.rename?.[column] ?? column)))
+        headerWritten = true
+      }
+
+      if (records.length > 0) {
+        await this.write(stream, records.map(record => this.format(record)).join(''))
+      }
+
+      progress.pages++
+      progress.records += records.length
+      this.options.onProgress?.({ ...progress })
+    }
+
+    if (this.options.end) {
+      stream.end()
+      await once(stream, 'finish')
+    }
+
+    return progress
+  }
+
+  /**
+   * Formats a record as a line of CSV or NDJSON.
+   *
+   * @param record The record to format
+   * @returns {string}
+   */
+  protected format(record: PowerSchoolRecord): string {
+    if (this.options.format === 'csv') {
+      const fields = flattenRecord(record)
+
+      return csvRow(this.columns.map(column => fields[column]))
+    }
+
+    if (!this.columns && !this.options.rename) {
+      return `${JSON.stringify(record)}\n`
+    }
+
+    const fields = flattenRecord(record)
+    const output = {}
+
+    for (const column of this.columns ?? Object.keys(fields)) {
+      output[this.options.rename?.[column] ?? column] = fields[column] ?? null
+    }
+
+    return `${JSON.stringify(output)}\n`
+  }
+
+  /**
+   * Writes a chunk, waiting for the stream to drain when its buffer is full.
+   *
+   * @param stream The stream to write to
+   * @param chunk The text to write
+   */
+  protected async write(stream: Writable, chunk: string): Promise<void> {
+    if (!stream.write(chunk)) {
+      await once(stream, 'drain')
+    }
+  }
+
+  /**
+   * Uses the projection of the request as the columns, unless it's every field.
+   *
+   * @returns {string[]|null}
+   */
+  protected projectionColumns(): string[]|null {
+    const projection = this.request.getConfig().params?.['projection']
+
+    return projection && projection !== '*'
+      ? String(projection).split(',').map(column => column.trim()).filter(Boolean)
+      : null
+  }
+}
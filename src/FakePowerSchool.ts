@@ -0,0 +1,611 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
+import { PowerSchool, PowerSchoolOptions } from './PowerSchool.js'
+import { PowerSchoolRecord } from './PowerSchoolResponse.js'
+import { TableMetadata } from './TableMetadata.js'
+import { Course, District, School, Section, SectionEnrollment, Staff, Student, Term } from './resources/models.js'
+
+/**
+ * The records of a PowerQuery, or a function that
+ * returns the records for the arguments it was sent.
+ */
+export type FakeQuery = PowerSchoolRecord[]|((args: Record<string, string>) => PowerSchoolRecord[])
+
+export interface FakePowerSchoolFixtures {
+  /**
+   * Rows of tables keyed by the table name. Rows without an id are given one.
+   */
+  tables?: Record<string, PowerSchoolRecord[]>
+
+  /**
+   * PowerQueries keyed by their name.
+   */
+  queries?: Record<string, FakeQuery>
+
+  /**
+   * The metadata of tables. Tables without metadata
+   * report the columns of their rows as strings.
+   */
+  metadata?: TableMetadata[]
+
+  district?: District
+  schools?: School[]
+  students?: Student[]
+  staff?: Staff[]
+  sections?: Section[]
+  courses?: Course[]
+  terms?: Term[]
+  sectionEnrollments?: SectionEnrollment[]
+}
+
+export interface FakePowerSchoolOptions {
+  /**
+   * The plugin's client id. Defaults to `fake-client-id`.
+   */
+  clientId?: string
+
+  /**
+   * The plugin's client secret. Defaults to `fake-client-secret`.
+   */
+  clientSecret?: string
+
+  /**
+   * The number of seconds issued tokens are valid for. Defaults to 3600.
+   */
+  tokenLifetime?: number
+}
+
+export interface FakeRequest {
+  method: string
+  url: string
+  params: Record<string, unknown>
+  data: unknown
+}
+
+interface FakeChange {
+  version: number
+  table: string
+  id: number
+  deleted: boolean
+}
+
+type FakeReply = [number, unknown?]
+
+/**
+ * Thrown when a `q` expression can't be parsed.
+ */
+class FakeQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * An in-memory PowerSchool server that answers requests through an axios
+ * adapter. It issues tokens, stores table rows, pages PowerQueries and
+ * `/ws/v1` resources and records the changes made to tables for
+ * `/ws/dataversion`, so clients can be tested without a live server.
+ */
+export class FakePowerSchool {
+  readonly url: string = 'https://fake.powerschool.local'
+  readonly clientId: string
+  readonly clientSecret: string
+  readonly tokenLifetime: number
+  readonly requests: FakeRequest[] = []
+  protected tables: Map<string, Map<number, Record<string, string>>> = new Map()
+  protected queries: Map<string, FakeQuery> = new Map()
+  protected metadata: Map<string, TableMetadata> = new Map()
+  protected resources: FakePowerSchoolFixtures = {}
+  protected tokens: Map<string, number> = new Map()
+  protected changes: FakeChange[] = []
+  protected version: number = 0
+  protected issued: number = 0
+
+  constructor(fixtures: FakePowerSchoolFixtures = {}, options: FakePowerSchoolOptions = {}) {
+    this.clientId = options.clientId ?? 'fake-client-id'
+    this.clientSecret = options.clientSecret ?? 'fake-client-secret'
+    this.tokenLifetime = options.tokenLifetime ?? 3600
+    this.seed(fixtures)
+  }
+
+  /**
+   * Adds fixtures to the server. Tables and queries
+   * are merged, resources replace the existing ones.
+   *
+   * @param fixtures The records to serve
+   * @returns {this}
+   */
+  public seed(fixtures: FakePowerSchoolFixtures): this {
+    for (const [table, rows] of Object.entries(fixtures.tables ?? {})) {
+      for (const row of rows) {
+        this.store(table, row)
+      }
+    }
+
+    for (const [name, query] of Object.entries(fixtures.queries ?? {})) {
+      this.queries.set(name, query)
+    }
+
+    for (const metadata of fixtures.metadata ?? []) {
+      this.metadata.set(metadata.name.toLowerCase(), metadata)
+    }
+
+    const resources = { ...fixtures }
+    delete resources.tables
+    delete resources.queries
+    delete resources.metadata
+    this.resources = { ...this.resources, ...resources }
+
+    return this
+  }
+
+  /**
+   * Creates a client that sends its requests to this server.
+   *
+   * @param options The options of the client
+   * @returns {PowerSchool}
+   */
+  public client(options: PowerSchoolOptions = {}): PowerSchool {
+    return new PowerSchool(this.url, this.clientId, this.clientSecret, {
+      ...options,
+      adapter: this.adapter,
+    })
+  }
+
+  /**
+   * Gets the rows currently stored in a table.
+   *
+   * @param table The name of the table
+   * @returns {Record<string, string>[]}
+   */
+  public rows(table: string): Record<string, string>[] {
+    return [...this.table(table).values()]
+  }
+
+  /**
+   * Gets the current data version.
+   *
+   * @returns {number}
+   */
+  public dataVersion(): number {
+    return this.version
+  }
+
+  /**
+   * Records a change to a row without writing it, as if
+   * it was changed in PowerSchool by someone else.
+   *
+   * @param table The name of the table
+   * @param id The id of the changed row
+   * @param deleted Whether the row was deleted
+   * @returns {number} The new data version
+   */
+  public recordChange(table: string, id: number, deleted: boolean = false): number {
+    this.changes.push({ version: ++this.version, table: table.toLowerCase(), id, deleted })
+
+    return this.version
+  }
+
+  /**
+   * Invalidates every token that has been issued, so
+   * the next request is rejected with a 401.
+   *
+   * @returns {this}
+   */
+  public expireTokens(): this {
+    this.tokens.clear()
+
+    return this
+  }
+
+  /**
+   * The axios adapter that answers requests.
+   *
+   * @param config The request config
+   * @returns {Promise<AxiosResponse>}
+   */
+  public adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const method = (config.method ?? 'get').toLowerCase()
+    const url = new URL(config.url, config.baseURL ?? this.url).pathname.replace(/\/+$/, '')
+    const params: Record<string, unknown> = { ...config.params }
+    let data: unknown = config.data
+
+    if (typeof data === 'string' && /^[[{]/.test(data.trim())) {
+      data = JSON.parse(data)
+    }
+
+    this.requests.push({ method, url, params, data })
+
+    const [status, body] = url === '/oauth/access_token'
+      ? this.issueToken(String(config.headers?.['Authorization'] ?? ''))
+      : this.authenticated(String(config.headers?.['Authorization'] ?? ''))
+        ? this.route(method, url, params, data)
+        : [401, { message: 'Invalid access token' }] as FakeReply
+
+    const response: AxiosResponse = {
+      data: body ?? '',
+      status,
+      statusText: String(status),
+      headers: { 'content-type': 'application/json' },
+      config,
+      request: {},
+    }
+
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response)
+    }
+
+    return response
+  }
+
+  protected issueToken(authorization: string): FakeReply {
+    const expected = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')
+
+    if (authorization !== `Basic ${expected}`) {
+      return [401, { error: 'invalid_client', error_description: 'Client authentication failed' }]
+    }
+
+    const token = `fake-token-${++this.issued}`
+    this.tokens.set(token, Date.now() + this.tokenLifetime * 1000)
+
+    return [200, { access_token: token, token_type: 'Bearer', expires_in: String(this.tokenLifetime) }]
+  }
+
+  protected authenticated(authorization: string): boolean {
+    const token = authorization.replace(/^Bearer\s+/, '')
+
+    return this.tokens.has(token) && this.tokens.get(token) > Date.now()
+  }
+
+  protected route(method: string, url: string, params: Record<string, unknown>, data: unknown): FakeReply {
+    try {
+      return this.dispatch(method, url, params, data)
+    } catch (err) {
+      // PowerSchool rejects a malformed q with a 400 rather than failing
+      if (err instanceof FakeQueryError) {
+        return [400, { message: err.message }]
+      }
+
+      throw err
+    }
+  }
+
+  protected dispatch(method: string, url: string, params: Record<string, unknown>, data: unknown): FakeReply {
+    const table = url.match(/^\/ws\/schema\/table\/([^/]+)(?:\/(count|metadata|\d+))?$/)
+
+    if (table) {
+      return this.routeTable(method, table[1].toLowerCase(), table[2], params, data)
+    }
+
+    const query = url.match(/^\/ws\/schema\/query\/([^/]+?)(\/count)?$/)
+
+    if (query && method === 'post') {
+      return this.runQuery(query[1], !!query[2], params, data)
+    }
+
+    const dataVersion = url.match(/^\/ws\/dataversion\/[^/]+\/(\d+)$/)
+
+    if (dataVersion && method === 'get') {
+      return this.changesSince(Number(dataVersion[1]))
+    }
+
+    if (url.startsWith('/ws/v1/') && method === 'get') {
+      return this.routeResource(url.slice('/ws/v1/'.length).split('/'), params)
+    }
+
+    return [404, { message: `No route for ${method.toUpperCase()} ${url}` }]
+  }
+
+  // --------------------------------------------------------------------------
+  // Tables
+  // --------------------------------------------------------------------------
+
+  protected routeTable(method: string, table: string, tail: string, params: Record<string, unknown>, data: unknown): FakeReply {
+    const id = tail && tail !== 'count' && tail !== 'metadata' ? Number(tail) : null
+
+    if (tail === 'metadata' && method === 'get') {
+      return [200, { metadata: this.tableMetadata(table) }]
+    }
+
+    if (tail === 'count' && method === 'get') {
+      return [200, { count: this.filter(this.rows(table), params.q).length }]
+    }
+
+    if (id === null && method === 'get') {
+      const rows = this.page(this.filter(this.rows(table), params.q), params)
+
+      return [200, { name: table, record: rows.map(row => this.tableRecord(table, row, params.projection)) }]
+    }
+
+    if (id === null && method === 'post') {
+      const row = this.store(table, this.tableFields(table, data))
+      this.recordChange(table, Number(row.id))
+
+      return [200, this.writeResult(table, 'INSERT', Number(row.id))]
+    }
+
+    if (id === null || !this.table(table).has(id)) {
+      return [404, { message: `Record ${id} not found in ${table}` }]
+    }
+
+    switch (method) {
+      case 'get':
+        return [200, this.tableRecord(table, this.table(table).get(id), params.projection)]
+      case 'put':
+        this.store(table, { ...this.table(table).get(id), ...this.tableFields(table, data), id })
+        this.recordChange(table, id)
+
+        return [200, this.writeResult(table, 'UPDATE', id)]
+      case 'delete':
+        this.table(table).delete(id)
+        this.recordChange(table, id, true)
+
+        return [204]
+    }
+
+    return [405, { message: `Method ${method.toUpperCase()} is not allowed` }]
+  }
+
+  protected table(table: string): Map<number, Record<string, string>> {
+    const name = table.toLowerCase()
+
+    if (!this.tables.has(name)) {
+      this.tables.set(name, new Map())
+    }
+
+    return this.tables.get(name)
+  }
+
+  protected store(table: string, row: PowerSchoolRecord): Record<string, string> {
+    const rows = this.table(table)
+    const id = row.id === undefined || row.id === null || row.id === ''
+      ? Math.max(0, ...rows.keys()) + 1
+      : Number(row.id)
+    const stored: Record<string, string> = {}
+
+    for (const [key, value] of Object.entries(row)) {
+      stored[key.toLowerCase()] = typeof value === 'boolean'
+        ? (value ? '1' : '0')
+        : value === null || value === undefined ? '' : String(value)
+    }
+
+    stored.id = String(id)
+    rows.set(id, stored)
+
+    return stored
+  }
+
+  protected tableMetadata(table: string): TableMetadata {
+    if (this.metadata.has(table)) {
+      return this.metadata.get(table)
+    }
+
+    const columns = new Set(['id'])
+    this.rows(table).forEach(row => Object.keys(row).forEach(column => columns.add(column)))
+
+    return {
+      name: table,
+      columns: [...columns].map(name => name === 'id'
+        ? { name, type: 'NUMBER', nullable: false }
+        : { name, type: 'VARCHAR2', nullable: true }),
+      extensions: [],
+    }
+  }
+
+  protected tableFields(table: string, data: unknown): PowerSchoolRecord {
+    const tables = data?.['tables'] ?? {}
+    const key = Object.keys(tables).find(key => key.toLowerCase() === table)
+
+    return key ? tables[key] : {}
+  }
+
+  protected tableRecord(table: string, row: Record<string, string>, projection: unknown): PowerSchoolRecord {
+    const fields = projection && projection !== '*'
+      ? Object.fromEntries(String(projection).split(',').map(field => [field.trim().toLowerCase(), row[field.trim().toLowerCase()] ?? '']))
+      : { ...row }
+
+    return { id: Number(row.id), name: table, tables: { [table]: fields } }
+  }
+
+  protected writeResult(table: string, action: string, id: number): PowerSchoolRecord {
+    return {
+      result: {
+        client_uid: '',
+        status: 'SUCCESS',
+        action,
+        success_message: { id, ref: `${this.url}/ws/schema/table/${table}/${id}` },
+      },
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Queries and changes
+  // --------------------------------------------------------------------------
+
+  protected runQuery(name: string, count: boolean, params: Record<string, unknown>, data: unknown): FakeReply {
+    if (!this.queries.has(name)) {
+      return [404, { message: `Query ${name} not found` }]
+    }
+
+    const query = this.queries.get(name)
+    const args = typeof data === 'object' && data !== null ? data as Record<string, string> : {}
+    const records = this.filter(typeof query === 'function' ? query(args) : query, params.q)
+
+    return count
+      ? [200, { count: records.length }]
+      : [200, { name, record: this.page(records, params) }]
+  }
+
+  protected changesSince(version: number): FakeReply {
+    const updated: Record<string, number[]> = {}
+    const deleted: Record<string, number[]> = {}
+
+    for (const change of this.changes.filter(change => change.version > version)) {
+      const changes = change.deleted ? deleted : updated
+      changes[change.table] = [...new Set([...(changes[change.table] ?? []), change.id])]
+    }
+
+    return [200, { '$dataversion': String(this.version), tables: updated, deleted }]
+  }
+
+  // --------------------------------------------------------------------------
+  // Resources
+  // --------------------------------------------------------------------------
+
+  protected routeResource(segments: string[], params: Record<string, unknown>): FakeReply {
+    const count = segments[segments.length - 1] === 'count'
+    const [resource, id, related] = count ? segments.slice(0, -1) : segments
+    const { district, schools = [], students = [], staff = [], sections = [], courses = [], terms = [], sectionEnrollments = [] } = this.resources
+
+    const single = (key: string, records: { id?: number }[]): FakeReply => {
+      const record = records.find(record => String(record.id) === id)
+
+      return record
+        ? [200, { [key]: record }]
+        : [404, { message: `The ${key} ${id} was not found` }]
+    }
+
+    const collection = (key: string, records: object[]): FakeReply => {
+      const filtered = this.filter(records, params.q)
+
+      return count
+        ? [200, { resource: { count: filtered.length } }]
+        : [200, { [`${key}s`]: filtered.length ? { [key]: this.page(filtered, params) } : null }]
+    }
+
+    const inSchool = (record: object): boolean => {
+      return String(record['school_id'] ?? record['school_enrollment']?.['school_id']) === id
+    }
+
+    if (resource === 'district' && !id) {
+      return district ? [200, { district }] : [404, { message: 'The district was not found' }]
+    }
+
+    if (resource === 'district') {
+      switch (id) {
+        case 'school':
+          return collection('school', schools)
+        case 'student':
+          return collection('student', students)
+      }
+    }
+
+    if (resource === 'school' && related) {
+      switch (related) {
+        case 'student':
+          return collection('student', students.filter(inSchool))
+        case 'staff':
+          return collection('staff', staff.filter(inSchool))
+        case 'section':
+          return collection('section', sections.filter(inSchool))
+        case 'course':
+          return collection('course', courses.filter(course => course['school_id'] === undefined || inSchool(course)))
+        case 'term':
+          return collection('term', terms.filter(inSchool))
+      }
+    }
+
+    if (resource === 'section' && related === 'section_enrollment') {
+      return collection('section_enrollment', sectionEnrollments.filter(enrollment => String(enrollment.section_id) === id))
+    }
+
+    if (!related) {
+      switch (resource) {
+        case 'school':
+          return single('school', schools)
+        case 'student':
+          return single('student', students)
+        case 'staff':
+          return single('staff', staff)
+        case 'section':
+          return single('section', sections)
+        case 'course':
+          return single('course', courses)
+        case 'term':
+          return single('term', terms)
+      }
+    }
+
+    return [404, { message: `No resource at /ws/v1/${segments.join('/')}` }]
+  }
+
+  // --------------------------------------------------------------------------
+  // Paging and filtering
+  // --------------------------------------------------------------------------
+
+  protected page<T>(records: T[], params: Record<string, unknown>): T[] {
+    const pageSize = Number(params.pagesize ?? 100)
+    const page = Number(params.page ?? 1)
+
+    return pageSize > 0
+      ? records.slice((page - 1) * pageSize, page * pageSize)
+      : records
+  }
+
+  protected filter<T extends object>(records: T[], q: unknown): T[] {
+    if (!q) {
+      return records
+    }
+
+    const conditions = String(q).split(';').filter(Boolean).map(parseCondition)
+
+    return records.filter(record => conditions.every(condition => condition(record)))
+  }
+}
+
+/**
+ * Parses a condition of a `q` expression into a function that tests records.
+ *
+ * @param condition A condition such as `last_name==Sm*` or `grade_level=in=(9,10)`
+ * @returns {Function}
+ * @throws {FakeQueryError} When the condition isn't valid
+ */
+const parseCondition = (condition: string): (record: object) => boolean => {
+  const match = condition.match(/^([\w.]+)(==|!=|=gt=|=ge=|=lt=|=le=|=in=)(.*)$/)
+
+  if (!match) {
+    throw new FakeQueryError(`Invalid query condition "${condition}"`)
+  }
+
+  const [, field, operator, expected] = match
+  const valueOf = (record: object): string => {
+    const value = field.split('.').reduce((value, key) => value?.[key] ?? value?.[key.toLowerCase()], record)
+
+    return value === null || value === undefined ? null : String(value)
+  }
+  const compare = (value: string): number => {
+    return value !== '' && expected !== '' && !isNaN(Number(value)) && !isNaN(Number(expected))
+      ? Number(value) - Number(expected)
+      : value.localeCompare(expected)
+  }
+  const equals = (value: string, pattern: string): boolean => {
+    if (pattern === 'null') {
+      return value === null || value === ''
+    }
+
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+
+    return value !== null && (regex.test(value) || (value !== '' && !isNaN(Number(value)) && Number(value) === Number(pattern)))
+  }
+
+  return (record: object): boolean => {
+    const value = valueOf(record)
+
+    switch (operator) {
+      case '==':
+        return equals(value, expected)
+      case '!=':
+        return !equals(value, expected)
+      case '=in=':
+        return expected.replace(/^\(|\)$/g, '').split(',').some(option => equals(value, option))
+      case '=gt=':
+        return value !== null && compare(value) > 0
+      case '=ge=':
+        return value !== null && compare(value) >= 0
+      case '=lt=':
+        return value !== null && compare(value) < 0
+      default:
+        return value !== null && compare(value) <= 0
+    }
+  }
+}
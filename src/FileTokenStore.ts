@@ -0,0 +1,46 @@
+import { StoredToken, TokenStore, storedTokenExpired } from './TokenStore.js'
+import { readJsonFile, updateJsonFile } from './jsonFile.js'
+
+/**
+ * Keeps tokens in a JSON file so they survive restarts
+ * and can be shared between processes on the same machine.
+ */
+export class FileTokenStore implements TokenStore {
+  path: string
+
+  constructor(path: string) {
+    this.path = path
+  }
+
+  public async get(key: string): Promise<StoredToken|null> {
+    const token = (await this.read())[key]
+
+    if (!token || storedTokenExpired(token)) {
+      return null
+    }
+
+    return token
+  }
+
+  public set(key: string, token: StoredToken): Promise<void> {
+    return updateJsonFile<StoredToken>(this.path, tokens => {
+      tokens[key] = token
+    })
+  }
+
+  public clear(key: string): Promise<void> {
+    return updateJsonFile<StoredToken>(this.path, tokens => {
+      if (!(key in tokens)) {
+        return false
+      }
+
+      delete tokens[key]
+
+      return true
+    })
+  }
+
+  protected read(): Promise<Record<string, StoredToken>> {
+    return readJsonFile<StoredToken>(this.path)
+  }
+}
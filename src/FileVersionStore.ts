@@ -0,0 +1,26 @@
+import { VersionStore } from './VersionStore.js'
+import { readJsonFile, updateJsonFile } from './jsonFile.js'
+
+/**
+ * Keeps data versions in a JSON file so a change feed
+ * can resume after the process restarts.
+ */
+export class FileVersionStore implements VersionStore {
+  path: string
+
+  constructor(path: string) {
+    this.path = path
+  }
+
+  public async get(applicationName: string): Promise<number|null> {
+    const version = (await readJsonFile<number>(this.path))[applicationName]
+
+    return typeof version === 'number' ? version : null
+  }
+
+  public set(applicationName: string, version: number): Promise<void> {
+    return updateJsonFile<number>(this.path, versions => {
+      versions[applicationName] = version
+    })
+  }
+}
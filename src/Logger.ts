@@ -0,0 +1,16 @@
+/**
+ * Receives the debug messages of a client, such as `console`
+ * or the logger of an application.
+ */
+export interface Logger {
+  debug(message: string, details?: Record<string, unknown>): void
+}
+
+/**
+ * Writes debug messages to the console.
+ */
+export const consoleLogger: Logger = {
+  debug: (message: string, details?: Record<string, unknown>): void => {
+    console.debug(`[powerschool] ${message}`, ...(details ? [details] : []))
+  },
+}
@@ -0,0 +1,63 @@
+import { CacheStore, CachedResponse } from './CacheStore.js'
+
+/**
+ * Keeps responses in memory, removing the least
+ * recently used ones once it's full.
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly maxEntries: number
+  protected responses: Map<string, CachedResponse> = new Map()
+
+  constructor(maxEntries: number = 500) {
+    this.maxEntries = maxEntries
+  }
+
+  public async get(key: string): Promise<CachedResponse|null> {
+    const response = this.responses.get(key)
+
+    if (!response) {
+      return null
+    }
+
+    this.responses.delete(key)
+
+    if (response.expiresAt <= Date.now()) {
+      return null
+    }
+
+    // Maps keep their insertion order, so the oldest key is the least recently used
+    this.responses.set(key, response)
+
+    return { ...response }
+  }
+
+  public async set(key: string, response: CachedResponse): Promise<void> {
+    this.responses.delete(key)
+    this.responses.set(key, { ...response })
+
+    while (this.responses.size > this.maxEntries) {
+      this.responses.delete(this.responses.keys().next().value)
+    }
+  }
+
+  public async deleteTable(table: string): Promise<void> {
+    for (const [key, response] of this.responses) {
+      if (response.table === table) {
+        this.responses.delete(key)
+      }
+    }
+  }
+
+  public async clear(): Promise<void> {
+    this.responses.clear()
+  }
+
+  /**
+   * The number of responses kept.
+   *
+   * @returns {number}
+   */
+  public size(): number {
+    return this.responses.size
+  }
+}
@@ -0,0 +1,32 @@
+import { StoredToken, TokenStore, storedTokenExpired } from './TokenStore.js'
+
+/**
+ * Keeps tokens in memory. Share an instance between
+ * clients to share tokens within a process.
+ */
+export class MemoryTokenStore implements TokenStore {
+  protected tokens: Map<string, StoredToken> = new Map()
+
+  public async get(key: string): Promise<StoredToken|null> {
+    const token = this.tokens.get(key)
+
+    if (!token) {
+      return null
+    }
+
+    if (storedTokenExpired(token)) {
+      this.tokens.delete(key)
+      return null
+    }
+
+    return { ...token }
+  }
+
+  public async set(key: string, token: StoredToken): Promise<void> {
+    this.tokens.set(key, { ...token })
+  }
+
+  public async clear(key: string): Promise<void> {
+    this.tokens.delete(key)
+  }
+}
@@ -0,0 +1,13 @@
+import { VersionStore } from './VersionStore.js'
+
+export class MemoryVersionStore implements VersionStore {
+  protected versions: Map<string, number> = new Map()
+
+  public async get(applicationName: string): Promise<number|null> {
+    return this.versions.get(applicationName) ?? null
+  }
+
+  public async set(applicationName: string, version: number): Promise<void> {
+    this.versions.set(applicationName, version)
+  }
+}
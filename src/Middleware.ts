@@ -0,0 +1,164 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios'
+import { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+
+export type MiddlewareRequestType = 'token'|'request'
+
+export interface MiddlewareContext {
+  /**
+   * Whether the request retrieves a token or was built by a request.
+   */
+  type: MiddlewareRequestType
+
+  /**
+   * A copy of the config the request was built from. Changes
+   * affect how the response is read, such as its column types.
+   */
+  config: PowerSchoolRequestConfig
+
+  /**
+   * The config given to axios. Changes made before
+   * the request is sent, such as headers, are sent along.
+   */
+  axiosConfig: AxiosRequestConfig
+
+  /**
+   * When the request started, in milliseconds.
+   */
+  startedAt: number
+
+  /**
+   * How many milliseconds the request took, once it's finished.
+   */
+  duration: number|null
+}
+
+/**
+ * A response given by middleware instead of the one of PowerSchool.
+ */
+export type MiddlewareResponse = Pick<AxiosResponse, 'data'> & Partial<AxiosResponse>
+
+export interface PipelineResult {
+  context: MiddlewareContext
+  response: MiddlewareResponse
+}
+
+type MiddlewareResult = MiddlewareResponse|void|Promise<MiddlewareResponse|void>
+
+export interface Middleware {
+  /**
+   * Called before the request is sent. Return a response
+   * to skip sending the request and use it instead.
+   */
+  beforeRequest?: (context: MiddlewareContext) => MiddlewareResult
+
+  /**
+   * Called once a response is received. Return a response to replace it.
+   */
+  afterResponse?: (context: MiddlewareContext, response: MiddlewareResponse) => MiddlewareResult
+
+  /**
+   * Called when the request fails. Return a response to recover
+   * from the error, or throw to replace it.
+   */
+  onError?: (context: MiddlewareContext, error: unknown) => MiddlewareResult
+}
+
+/**
+ * Runs middleware around the requests sent by a client,
+ * in the order the middleware was added.
+ */
+export class MiddlewarePipeline {
+  protected middleware: Middleware[] = []
+
+  /**
+   * Adds middleware to the end of the pipeline.
+   *
+   * @param middleware The middleware to add
+   * @returns {this}
+   */
+  public use(middleware: Middleware): this {
+    this.middleware.push(middleware)
+
+    return this
+  }
+
+  /**
+   * Removes middleware from the pipeline.
+   *
+   * @param middleware The middleware to remove
+   * @returns {this}
+   */
+  public remove(middleware: Middleware): this {
+    this.middleware = this.middleware.filter(item => item !== middleware)
+
+    return this
+  }
+
+  /**
+   * Sends a request through every middleware.
+   *
+   * @param type Whether the request retrieves a token
+   * @param config The config the request was built from
+   * @param axiosConfig The config given to axios
+   * @param send Sends the request
+   * @returns {Promise<PipelineResult>}
+   */
+  public async run(
+    type: MiddlewareRequestType,
+    config: PowerSchoolRequestConfig,
+    axiosConfig: AxiosRequestConfig,
+    send: (axiosConfig: AxiosRequestConfig) => Promise<MiddlewareResponse>,
+  ): Promise<PipelineResult> {
+    const context: MiddlewareContext = {
+      type,
+      config: config.clone(),
+      axiosConfig,
+      startedAt: Date.now(),
+      duration: null,
+    }
+    let response: MiddlewareResponse
+
+    try {
+      for (const middleware of this.middleware) {
+        response = (await middleware.beforeRequest?.(context)) || undefined
+
+        if (response) {
+          break
+        }
+      }
+
+      response = response ?? await send(context.axiosConfig)
+    } catch (err) {
+      context.duration = Date.now() - context.startedAt
+      response = await this.recover(context, err)
+    }
+
+    context.duration = context.duration ?? Date.now() - context.startedAt
+
+    for (const middleware of this.middleware) {
+      response = (await middleware.afterResponse?.(context, response)) || response
+    }
+
+    return { context, response }
+  }
+
+  /**
+   * Gives the error to every middleware until one recovers from it.
+   *
+   * @param context The context of the request
+   * @param error The error that stopped the request
+   * @returns {Promise<MiddlewareResponse>}
+   * @throws The error when no middleware recovers from it
+   */
+  protected async recover(context: MiddlewareContext, error: unknown): Promise<MiddlewareResponse> {
+    for (const middleware of this.middleware) {
+      const response = await middleware.onError?.(context, error)
+
+      if (response) {
+        return response
+      }
+    }
+
+    throw error
+  }
+}
@@ -0,0 +1,226 @@
+import type { PowerSchool } from './PowerSchool.js'
+import type { PowerSchoolRequest } from './PowerSchoolRequest.js'
+import { PowerSchoolRecord } from './PowerSchoolResponse.js'
+import { formatDate } from './QueryExpression.js'
+
+export type PowerQueryArgumentType = 'string'|'number'|'boolean'|'date'
+
+export interface PowerQueryArgument {
+  type: PowerQueryArgumentType
+
+  /**
+   * Whether the argument may be left out. Arguments are required by default.
+   */
+  optional?: boolean
+}
+
+export type PowerQueryArguments = Record<string, PowerQueryArgumentType|PowerQueryArgument>
+
+export interface PowerQueryDefinition<S extends PowerQueryArguments> {
+  /**
+   * The name of the query, such as `com.pearson.core.student.search`.
+   */
+  name: string
+
+  /**
+   * The arguments accepted by the query and their types.
+   */
+  args?: S
+
+  /**
+   * The number of records retrieved per page. Defaults to 100.
+   */
+  pageSize?: number
+}
+
+type ArgumentValue<T> = T extends 'number'
+  ? number
+  : T extends 'boolean'
+    ? boolean
+    : T extends 'date'
+      ? Date|string
+      : string
+
+type ArgumentTypeOf<A> = A extends PowerQueryArgument
+  ? ArgumentValue<A['type']>
+  : ArgumentValue<A>
+
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S]
+
+type RequiredKeys<S> = Exclude<keyof S, OptionalKeys<S>>
+
+/**
+ * The arguments object accepted by a query with the given schema.
+ */
+export type PowerQueryArgs<S extends PowerQueryArguments> =
+  { [K in RequiredKeys<S>]: ArgumentTypeOf<S[K]> } &
+  { [K in OptionalKeys<S>]?: ArgumentTypeOf<S[K]> }
+
+/**
+ * Runs a query with the given arguments, resolving every record.
+ */
+export type PowerQueryFunction<S extends PowerQueryArguments, R> = Partial<PowerQueryArgs<S>> extends PowerQueryArgs<S>
+  ? (args?: PowerQueryArgs<S>) => Promise<R[]>
+  : (args: PowerQueryArgs<S>) => Promise<R[]>
+
+/**
+ * The functions created for a set of queries.
+ */
+export type PowerQueries<Q extends Record<string, PowerQuery>> = {
+  [K in keyof Q]: Q[K] extends PowerQuery<infer S, infer R> ? PowerQueryFunction<S, R> : never
+}
+
+/**
+ * Thrown when the arguments of a query don't match its schema.
+ */
+export class PowerQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * A named PowerQuery along with the arguments it accepts
+ * and the shape of the records it returns.
+ */
+export class PowerQuery<S extends PowerQueryArguments = PowerQueryArguments, R extends object = PowerSchoolRecord> {
+  readonly name: string
+  readonly args: S
+  readonly pageSize: number
+
+  constructor(definition: PowerQueryDefinition<S>) {
+    this.name = definition.name
+    this.args = definition.args ?? {} as S
+    this.pageSize = definition.pageSize ?? 100
+  }
+
+  /**
+   * Declares a query. Chain `returns()` to type its records.
+   *
+   * @param definition The name and arguments of the query
+   * @returns {PowerQuery<S>}
+   */
+  public static define<S extends PowerQueryArguments = Record<never, never>>(definition: PowerQueryDefinition<S>): PowerQuery<S> {
+    return new PowerQuery<S>(definition)
+  }
+
+  /**
+   * Sets the type of the records returned by the query.
+   *
+   * @returns {PowerQuery<S, T>}
+   */
+  public returns<T extends object>(): PowerQuery<S, T> {
+    return this as unknown as PowerQuery<S, T>
+  }
+
+  /**
+   * Checks the arguments against the schema and
+   * casts them to the strings PowerSchool expects.
+   *
+   * @param args The arguments of the query
+   * @returns {Record<string, string>}
+   * @throws {PowerQueryError}
+   */
+  public validate(args: object = {}): Record<string, string> {
+    const output: Record<string, string> = {}
+
+    for (const key of Object.keys(args)) {
+      if (!(key in this.args)) {
+        throw new PowerQueryError(`Unknown argument "${key}" given for ${this.name}`)
+      }
+    }
+
+    for (const [key, schema] of Object.entries(this.args)) {
+      const { type, optional } = typeof schema === 'string'
+        ? { type: schema, optional: false }
+        : schema
+      const value = args[key]
+
+      if (value === undefined || value === null) {
+        if (!optional) {
+          throw new PowerQueryError(`Missing argument "${key}" for ${this.name}`)
+        }
+
+        continue
+      }
+
+      output[key] = this.formatArgument(key, type, value)
+    }
+
+    return output
+  }
+
+  /**
+   * Builds the request for the query.
+   *
+   * @param client The client used to send the query
+   * @param args The arguments of the query
+   * @returns {PowerSchoolRequest}
+   * @throws {PowerQueryError}
+   */
+  public request(client: PowerSchool, args: object = {}): PowerSchoolRequest {
+    const request = client.request()
+
+    return request.setNamedQuery(this.name, request.castValuesToString(this.validate(args)))
+  }
+
+  /**
+   * Sends the query and resolves the records of every page.
+   *
+   * @param client The client used to send the query
+   * @param args The arguments of the query
+   * @returns {Promise<R[]>}
+   * @throws {PowerQueryError}
+   */
+  public async run(client: PowerSchool, args: object = {}): Promise<R[]> {
+    const records: R[] = []
+
+    for await (const record of this.request(client, args).paginate(this.pageSize)) {
+      records.push(record as R)
+    }
+
+    return records
+  }
+
+  protected formatArgument(key: string, type: PowerQueryArgumentType, value: unknown): string {
+    const invalid = (): PowerQueryError => {
+      return new PowerQueryError(`Argument "${key}" for ${this.name} must be a ${type}`)
+    }
+
+    switch (type) {
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value)) {
+          throw invalid()
+        }
+
+        return String(value)
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          throw invalid()
+        }
+
+        return value ? '1' : '0'
+      case 'date':
+        if (value instanceof Date) {
+          if (isNaN(value.getTime())) {
+            throw invalid()
+          }
+
+          return formatDate(value)
+        }
+
+        if (typeof value !== 'string') {
+          throw invalid()
+        }
+
+        return value
+      default:
+        if (typeof value !== 'string') {
+          throw invalid()
+        }
+
+        return value
+    }
+  }
+}
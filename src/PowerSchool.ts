@@ -1,530 +1,410 @@
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, Method } from 'axios'
-import * as qs from 'qs'
-import { PowerSchoolResponse } from './PowerSchoolResponse.js'
-
-export class PowerSchoolRequestConfig {
-  endpoint: string
-  method: Method = 'get'
-  table: string
-  data: object = {}
-  params: object = {}
-  id: number
-  includeProjection: boolean = false
-  pageKey: string
-}
-
-export class PowerSchool {
-  url: string
-  clientId: string
-  clientSecret: string
-  private token: string
-  protected client: AxiosInstance
-  protected requestConfig: PowerSchoolRequestConfig = new PowerSchoolRequestConfig
-
-  constructor(url: string, clientId: string, clientSecret: string) {
-    this.url = url
-    this.clientId = clientId
-    this.clientSecret = clientSecret
-    this.client = axios.create({
-      baseURL: url,
-    })
-  }
-
-  public setConfig(config: PowerSchoolRequestConfig = new PowerSchoolRequestConfig): this {
-    this.requestConfig = config
-
-    return this
-  }
-
-  public tokenSet(): boolean {
-    return !!this.token
-  }
-
-  public setToken(token: string): this {
-    this.token = token
-
-    return this
-  }
-
-  public async retrieveToken(force: boolean = false): Promise<PowerSchool> {
-    if (this.tokenSet() && !force) {
-      return this
-    }
-
-    const token: string = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')
+import axios, { AxiosAdapter, AxiosInstance, AxiosRequestConfig } from 'axios'
+import { PowerSchoolRecord, PowerSchoolResponse } from './PowerSchoolResponse.js'
+import { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+import { PowerSchoolRequest } from './PowerSchoolRequest.js'
+import { TableRequest } from './TableRequest.js'
+import { TableMetadata, parseTableMetadata } from './TableMetadata.js'
+import { RequestBuilder } from './RequestBuilder.js'
+import { TokenStore } from './TokenStore.js'
+import { MemoryTokenStore } from './MemoryTokenStore.js'
+import { AuthenticationError, PowerSchoolError } from './PowerSchoolError.js'
+import { RetryOptions, RetryPolicy } from './RetryPolicy.js'
+import { RateLimiter } from './RateLimiter.js'
+import { SerializationOptions, Serializer } from './Serializer.js'
+import { Logger, consoleLogger } from './Logger.js'
+import { DebugMiddleware } from './DebugMiddleware.js'
+import { Recording, RecordingOptions } from './Recording.js'
+import { CacheOptions, ResponseCache } from './ResponseCache.js'
+import { Middleware, MiddlewarePipeline, MiddlewareRequestType, MiddlewareResponse, PipelineResult } from './Middleware.js'
+import { sleep } from './sleep.js'
+import { ChangeFeed, ChangeFeedOptions } from './ChangeFeed.js'
+import { PowerQueries, PowerQuery } from './PowerQuery.js'
+import { DistrictResource } from './resources/DistrictResource.js'
+import { SchoolResource } from './resources/SchoolResource.js'
+import { StudentResource } from './resources/StudentResource.js'
+import { StaffResource } from './resources/StaffResource.js'
+import { SectionResource } from './resources/SectionResource.js'
+import { CourseResource } from './resources/CourseResource.js'
+import { TermResource } from './resources/TermResource.js'
 
-    const res: AxiosResponse = await this.client.post(`/oauth/access_token`, 'grant_type=client_credentials', {
-      headers: {
-        'Content-type': 'application/x-www-form-urlencoded;charset=UTF-8',
-        'Accept': `application/json`,
-        'Authorization': `Basic ${token}`,
-      }
-    })
-
-    return this.setToken(res.data.access_token)
-  }
-
-  // --------------------------------------------------------------------------
-  // Fluent functions
-  // --------------------------------------------------------------------------
+export { PowerSchoolRequestConfig }
 
+export interface PowerSchoolOptions {
   /**
-   * Sets the custom table for the request
-   *
-   * @param table The custom table name for which you wish to interact
-   * @returns {this}
+   * The number of seconds before the token expires
+   * that it should be refreshed. Defaults to 60.
    */
-  public setTable(table: string): this {
-    const endpoint: string = table.startsWith('/ws/schema/table')
-      ? table
-      : `/ws/schema/table/${table}`
-    this.requestConfig.pageKey = 'record'
-
-    return this.setEndpoint(endpoint)
-      .includeProjection()
-  }
+  tokenRefreshBuffer?: number
 
   /**
-   * @alias setTable
+   * Where tokens are kept between requests. Share a store
+   * to reuse tokens across instances and processes.
    */
-  public table(table: string): this {
-    return this.setTable(table)
-  }
+  tokenStore?: TokenStore
 
   /**
-   * @alias setTable
+   * How failed requests are retried. Requests are not retried by default.
    */
-  public forTable(table: string): this {
-    return this.setTable(table)
-  }
+  retry?: RetryOptions
 
   /**
-   * @alias setTable
+   * The maximum number of requests this instance sends at once.
    */
-  public againstTable(table: string): this {
-    return this.setTable(table)
-  }
+  maxConcurrency?: number
 
   /**
-   * Fluently set the ID to be appended to the endpoint. The endpoint should be set first.
-   *
-   * @param id The id of the record you wish to query or modify
-   * @returns {this}
+   * The maximum number of requests this instance starts per second.
    */
-  public setId(id: number): this {
-    this.requestConfig.id = id
-
-    return this.setEndpoint(this.requestConfig.endpoint + `/${id}`)
-  }
+  requestsPerSecond?: number
 
   /**
-   * @alias setId
+   * The axios adapter used to send requests, such as the one
+   * of a `FakePowerSchool` when testing without a server.
    */
-  public id(id: number): this {
-    return this.setId(id)
-  }
+  adapter?: AxiosAdapter
 
   /**
-   * @alias setId
+   * How dates, nulls and arrays in the data of requests are written.
    */
-  public forId(id: number): this {
-    return this.setId(id)
-  }
+  serialization?: SerializationOptions
 
   /**
-   * Excludes the projection parameter from the request.
-   * Some requests will error when present.
-   *
-   * @returns {this}
+   * Whether to log every request, page and retry. Authorization
+   * headers, the client secret and tokens are always redacted.
    */
-  public excludeProjection(): this {
-    this.requestConfig.includeProjection = false
-
-    return this
-  }
+  debug?: boolean
 
   /**
-   * @alias excludeProjection
+   * Where debug messages are written. Defaults to the console.
    */
-  public withoutProjection(): this {
-    return this.excludeProjection()
-  }
+  logger?: Logger
 
-  public includeProjection(): this {
-    this.requestConfig.includeProjection = true
-
-    return this
-  }
+  /**
+   * Records interactions with PowerSchool to a fixture file or replays
+   * them without a server. Credentials and tokens are scrubbed.
+   */
+  recording?: RecordingOptions
 
   /**
-   * Sets the endpoint for the request.
-   *
-   * @param endpoint The url path to which to send the request
-   * @returns {this}
+   * Caches the responses of GET requests. Writes to a table
+   * through this client remove the table's cached responses.
    */
-  public setEndpoint(endpoint: string): this {
-    this.requestConfig.endpoint = this.sanitizeEndpoint(endpoint)
-    const parts = endpoint.split('/')
-    const tail = parts.pop()
+  cache?: CacheOptions|boolean
+}
 
-    if (!isNaN(Number(tail))) {
-      this.requestConfig.id = Number(tail)
+export class PowerSchool extends RequestBuilder {
+  url: string
+  clientId: string
+  clientSecret: string
+  options: PowerSchoolOptions
+  private token: string
+  private tokenExpiresAt: Date
+  private pendingToken: Promise<PowerSchool>
+  protected client: AxiosInstance
+  protected retryPolicy: RetryPolicy
+  protected limiter: RateLimiter
+  protected serializer: Serializer
+  protected middleware: MiddlewarePipeline = new MiddlewarePipeline
+  protected logger: Logger|null
+  protected recording: Recording|null = null
+  protected cache: ResponseCache|null = null
+  readonly district: DistrictResource = new DistrictResource(this)
+  readonly schools: SchoolResource = new SchoolResource(this)
+  readonly students: StudentResource = new StudentResource(this)
+  readonly staff: StaffResource = new StaffResource(this)
+  readonly sections: SectionResource = new SectionResource(this)
+  readonly courses: CourseResource = new CourseResource(this)
+  readonly terms: TermResource = new TermResource(this)
+
+  constructor(url: string, clientId: string, clientSecret: string, options: PowerSchoolOptions = {}) {
+    super()
+    this.url = url
+    this.clientId = clientId
+    this.clientSecret = clientSecret
+    this.options = {
+      tokenRefreshBuffer: 60,
+      tokenStore: new MemoryTokenStore,
+      ...options,
+    }
+    this.client = axios.create({
+      baseURL: url,
+      ...(this.options.adapter ? { adapter: this.options.adapter } : {}),
+    })
+    this.retryPolicy = new RetryPolicy(this.options.retry)
+    this.limiter = new RateLimiter(this.options.maxConcurrency, this.options.requestsPerSecond)
+    this.serializer = new Serializer(this.options.serialization)
+    this.logger = this.options.debug
+      ? this.options.logger ?? consoleLogger
+      : null
+
+    if (this.logger) {
+      this.use(new DebugMiddleware(this.logger, () => [this.clientSecret, this.token]))
     }
 
-    if (this.requestConfig.endpoint.includes('/table/')) {
-      this.requestConfig.table = this.requestConfig.id
-        ? parts[parts.length - 2]
-        : tail
+    if (this.options.recording) {
+      this.recording = new Recording(this.options.recording, () => [this.clientSecret, this.token])
+      this.use(this.recording)
+    }
 
-      return this.includeProjection()
+    if (this.options.cache) {
+      this.cache = new ResponseCache(this.options.cache === true ? {} : this.options.cache, `${this.url}|${this.clientId}`)
+      this.use(this.cache)
     }
+  }
 
-    return this.excludeProjection()
+  public setConfig(config: PowerSchoolRequestConfig = new PowerSchoolRequestConfig): this {
+    this.requestConfig = config
+
+    return this
   }
 
   /**
-   * @alias setEndpoint
+   * Creates an independent request that shares this client's token,
+   * retries and rate limits. Requests are immutable: every fluent function
+   * returns a new request, so they can safely be sent concurrently.
+   *
+   * @returns {PowerSchoolRequest}
    */
-  public toEndpoint(endpoint: string): this {
-    return this.setEndpoint(endpoint)
+  public request(): PowerSchoolRequest {
+    return new PowerSchoolRequest(this)
   }
 
   /**
-   * @alias setEndpoint
+   * Creates an independent request for a table. Give the type of the
+   * table's records to check the fields used by the request.
+   *
+   * @param table The table name for which you wish to interact
+   * @returns {TableRequest<T>}
    */
-  public to(endpoint: string): this {
-    return this.setEndpoint(endpoint)
+  public table<T extends object = PowerSchoolRecord>(table: string): TableRequest<T> {
+    return new TableRequest<T>(this).setTable(table)
   }
 
   /**
-   * @alias setEndpoint
+   * Retrieves the columns and extension tables of a table.
+   *
+   * @param table The name of the table
+   * @returns {Promise<TableMetadata>}
    */
-  public endpoint(endpoint: string): this {
-    return this.setEndpoint(endpoint)
+  public async metadata(table: string): Promise<TableMetadata> {
+    const res = await this.request().get(`/ws/schema/table/${table}/metadata`)
+
+    return parseTableMetadata(res.rawData, table)
   }
 
   /**
-   * Sets the data that should be sent with the request.
-   * For GET requests, it will set query parameters.
-   * For POST and PUT/PATCH, it will be the json body.
+   * The client changes its own config.
    *
-   * @param data The data to send with the request. The values will be cast as string
    * @returns {this}
    */
-  public setData(data: object): this {
-    this.requestConfig.data = data
-
+  protected editable(): this {
     return this
   }
 
-  /**
-   * @alias setData
-   */
-  public withData(data: object): this {
-    return this.setData(data)
+  public getSerializer(): Serializer {
+    return this.serializer
   }
 
-  /**
-   * @alias setData
-   */
-  public with(data: object): this {
-    return this.setData(data)
+  public getLogger(): Logger|null {
+    return this.logger
   }
 
   /**
-   * Sets the url's query string parameters
+   * Gets the recording of this client's interactions, if enabled.
    *
-   * @param queryParams The query params that should be added as a query string to the request url
-   * @returns {this}
+   * @returns {Recording|null}
    */
-  public withQueryParams(queryParams: string|object): this {
-    this.requestConfig.params = typeof queryParams === 'string'
-      ? qs.parse(queryParams)
-      : queryParams
-
-    return this
+  public getRecording(): Recording|null {
+    return this.recording
   }
 
   /**
-   * @alias withQueryParams
-   */
-  public query(queryParams: string|object): this {
-    return this.withQueryParams(queryParams)
-  }
-
-  /**
-   * Adds an entry to the query string.
+   * Gets the cache of this client's responses, if enabled.
    *
-   * @param key The key of the param to set
-   * @param value The value of the parameter
-   * @returns {this}
+   * @returns {ResponseCache|null}
    */
-  public addQueryParam(key: string, value: any): this {
-    this.requestConfig.params[key] = value
-
-    return this
+  public getCache(): ResponseCache|null {
+    return this.cache
   }
 
   /**
-   * Sets an entry on the data object
+   * Sets the store used to keep tokens between requests.
    *
-   * @param key The key of the data object to set
-   * @param value The value for the key. Will be appriopriately cast as a string.
+   * @param store The token store
    * @returns {this}
    */
-  public setDataItem(key: string, value: any): this {
-    this.requestConfig.data[key] = this.castValueToString(value)
+  public setTokenStore(store: TokenStore): this {
+    this.options.tokenStore = store
 
     return this
   }
 
   /**
-   * Sets the HTTP verb for the request: GET, POST, PUT, PATCH, DELETE
+   * Adds middleware that runs around every request this client
+   * sends, including the ones retrieving tokens.
    *
-   * @param method The HTTP verb to use for the request
+   * @param middleware The hooks to run
    * @returns {this}
    */
-  public setMethod(method: Method): this {
-    this.requestConfig.method = method
+  public use(middleware: Middleware): this {
+    this.middleware.use(middleware)
 
     return this
   }
 
-  /**
-   * @alias setMethod
-   */
-  public method(method: Method): this {
-    return this.setMethod(method)
+  public tokenSet(): boolean {
+    return !!this.token
   }
 
   /**
-   * Sets the name of the PowerQuery. If request data is included,
-   * the request will be sent.
+   * Gets the current access token.
    *
-   * @param name The name of the PowerQuery. Can exclude endpoint prefix (/ws/schema/query)
-   * @param data The data to include with the request.
-   * @returns {this|PowerSchoolResponse}
-   */
-  public setNamedQuery(name: string, data: object = {}): this {
-    const endpoint: string = name.startsWith('/ws/schema/query')
-      ? name
-      : `/ws/schema/query/${name}`
-    this.setEndpoint(endpoint.replace(/\/{2,}/g, '/'))
-    this.requestConfig.pageKey = 'record'
-
-    if (Object.keys(data).length > 0) {
-      this.setData(data)
-    }
-
-    return this.setMethod('post')
-  }
-
-  /**
-   * @alias setNamedQuery
+   * @returns {string|null}
    */
-  public namedQuery(name: string, data: object = {}): this {
-    return this.setNamedQuery(name, data)
+  public getToken(): string|null {
+    return this.token ?? null
   }
 
   /**
-   * @alias setNamedQuery
-   */
-  public powerQuery(name: string, data: object = {}): this {
-    return this.setNamedQuery(name, data)
-  }
-
-  /**
-   * @alias setNamedQuery
-   */
-  public pq(name: string, data: object = {}): this {
-    return this.setNamedQuery(name, data)
-  }
-
-  /**
-   * Sets the q query string paramter.
+   * Sets the access token used to authenticate requests.
    *
-   * @param expression The query expression
+   * @param token The access token
+   * @param expiresIn The number of seconds until the token expires, if known
    * @returns {this}
    */
-  public q(expression: string|string[]): this {
-    const exp = Array.isArray(expression)
-      ? expression.join(';')
-      : expression
-
-    return this.addQueryParam('q', exp)
-  }
+  public setToken(token: string, expiresIn: number = null): this {
+    this.token = token
+    this.tokenExpiresAt = expiresIn === null || isNaN(expiresIn)
+      ? null
+      : new Date(Date.now() + expiresIn * 1000)
 
-  /**
-   * @alias q
-   */
-  public queryExpression(expression: string|string[]): this {
-    return this.q(expression)
+    return this
   }
 
   /**
-   * Adds an ad-hoc filter expression,
-   * meant to be used for PowerQueries
+   * Gets when the current token expires, if known.
    *
-   * @param expression
-   * @returns {this}
+   * @returns {Date|null}
    */
-  public adHocFilter(expression: string|string[]): this {
-    const exp = Array.isArray(expression)
-      ? expression.join(';')
-      : expression
-
-    return this.addQueryParam('$q', exp)
+  public getTokenExpiration(): Date|null {
+    return this.tokenExpiresAt
   }
 
   /**
-   * @alias adHocFilter
-   */
-  public filter(expression: string|string[]): this {
-    return this.adHocFilter(expression)
-  }
-
-  /**
-   * Adds a value to the projection query string parameter.
+   * Determines whether the token has expired or will expire
+   * within the refresh buffer. Tokens without a known
+   * expiration are considered valid.
    *
-   * @param projection An array or string of fields to add to the projection.
-   * @returns {this}
+   * @returns {boolean}
    */
-  public projection(projection: string|string[] = '*'): this {
-    return this.addQueryParam('projection', this.castValueToString(projection))
-  }
+  public tokenExpired(): boolean {
+    if (!this.tokenExpiresAt) {
+      return false
+    }
 
-  /**
-   * @alias projection
-   */
-  public withProjection(projection: string|string[]): this {
-    return this.projection(projection)
+    return this.tokenExpiresAt.getTime() - this.options.tokenRefreshBuffer * 1000 <= Date.now()
   }
 
   /**
-   * Sets the query parameter for page.
+   * Clears the current token from this instance and the token store.
    *
-   * @param page The page number to use in the request
-   * @returns {this}
+   * @returns {Promise<this>}
    */
-  public page(page: number): this {
-    return this.addQueryParam('page', page)
-  }
+  public async clearToken(): Promise<this> {
+    this.token = null
+    this.tokenExpiresAt = null
+    await this.options.tokenStore.clear(this.tokenStoreKey())
 
-  /**
-   * Set the size of the results.
-   *
-   * @param size The size of the results that should be returned
-   * @returns {this}
-   */
-  public pageSize(size: number): this {
-    return this.addQueryParam('pagesize', size)
+    return this
   }
 
   /**
-   * Sets the sort query parameter value.
+   * Retrieves a token when one isn't set, has expired or is forced.
+   * Unless forced, a valid token from the token store is used before
+   * requesting a new one. Concurrent calls share the same in-flight request.
    *
-   * @param columns The columns on which to sort the results
-   * @param descending Whether the order should be descending
-   * @returns {this}
+   * @param force Whether to retrieve a new token regardless of the current one
+   * @returns {Promise<PowerSchool>}
    */
-  public sort(columns: string|string[], descending: boolean = false): this {
-    return this.addQueryParam('sort', this.castValueToString(columns))
-      .addQueryParam('sortdescending', descending ? 'true' : 'false')
-  }
+  public retrieveToken(force: boolean = false): Promise<PowerSchool> {
+    if (this.tokenSet() && !this.tokenExpired() && !force) {
+      return Promise.resolve(this)
+    }
 
-  /**
-   * Sets the sort query parameter value.
-   *
-   * @param expression The order expression
-   * @returns {this}
-   */
-  public adHocOrder(expression: string): this {
-    return this.addQueryParam('order', expression)
-  }
+    if (!this.pendingToken) {
+      this.pendingToken = this.loadToken(force)
+        .finally(() => {
+          this.pendingToken = null
+        })
+    }
 
-  /**
-   * @alias adHocOrder
-   */
-  public order(expression: string): this {
-    return this.adHocOrder(expression)
+    return this.pendingToken
   }
 
   /**
-   * Sets the count query parameter value.
-   * This will include the total number of records
-   * for the query in the response
+   * Uses the stored token if it's still valid,
+   * otherwise requests and stores a new one.
    *
-   * @returns {this}
+   * @param force Whether to skip the stored token
+   * @returns {Promise<PowerSchool>}
    */
-  public includeCount(): this {
-    return this.addQueryParam('count', 'true')
-  }
+  protected async loadToken(force: boolean): Promise<PowerSchool> {
+    const key = this.tokenStoreKey()
+    const stored = force
+      ? null
+      : await this.options.tokenStore.get(key)
 
-  /**
-   * Sets the data version and application name.
-   *
-   * @param version The version of the data
-   * @param applicationName The application name that is checking against the version
-   * @returns {this}
-   */
-  public dataVersion(version: number, applicationName: string): this {
-    return this.setDataItem('$dataversion', version)
-      .setDataItem('$dataversion_applicationname', applicationName)
-  }
+    if (stored) {
+      this.token = stored.accessToken
+      this.tokenExpiresAt = stored.expiresAt === null ? null : new Date(stored.expiresAt)
 
-  /**
-   * @alias dataVersion
-   */
-  public withDataVersion(applicationName: string, version: number): this {
-    return this.dataVersion(version, applicationName)
-  }
-
-  /**
-   * Sets the expansions to include in the request.
-   *
-   * @param expansions The expansions to be included.
-   * @returns {this}
-   */
-  public expansions(expansions: string|string[]): this {
-    return this.addQueryParam('expansions', this.castValueToString(expansions))
-  }
+      if (!this.tokenExpired()) {
+        return this
+      }
+    }
 
-  /**
-   * @alias expansions
-   */
-  public withExpansions(expansions: string|string[]): this {
-    return this.expansions(expansions)
-  }
+    await this.requestToken()
+    await this.options.tokenStore.set(key, {
+      accessToken: this.token,
+      expiresAt: this.tokenExpiresAt ? this.tokenExpiresAt.getTime() : null,
+    })
 
-  /**
-   * @alias expansions
-   */
-  public withExpansion(expansion: string): this {
-    return this.expansions(expansion)
+    return this
   }
 
   /**
-   * Sets the extensions to include in the request.
+   * The key under which this instance's token is stored.
+   * Tokens are shared by clients of the same server and plugin.
    *
-   * @param extensions The extensions ot include in the request.
-   * @returns {this}
+   * @returns {string}
    */
-  public extensions(extensions: string|string[]): this {
-    return this.addQueryParam('extensions', this.castValueToString(extensions))
+  protected tokenStoreKey(): string {
+    return `${this.url}|${this.clientId}`
   }
 
   /**
-   * @alias extensions
+   * Requests a new access token from PowerSchool.
+   *
+   * @returns {Promise<PowerSchool>}
    */
-  public withExtensions(extensions: string|string[]): this {
-    return this.extensions(extensions)
-  }
+  protected async requestToken(): Promise<PowerSchool> {
+    const token: string = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')
+    const config = Object.assign(new PowerSchoolRequestConfig, {
+      endpoint: '/oauth/access_token',
+      method: 'post',
+    })
+    const { response: res } = await this.perform('token', config, {
+      url: '/oauth/access_token',
+      method: 'post',
+      data: 'grant_type=client_credentials',
+      headers: {
+        'Content-type': 'application/x-www-form-urlencoded;charset=UTF-8',
+        'Accept': `application/json`,
+        'Authorization': `Basic ${token}`,
+      },
+    })
 
-  /**
-   * @alias extensions
-   */
-  public withExtension(extension: string): this {
-    return this.extensions(extension)
+    return this.setToken(res.data.access_token, Number(res.data.expires_in ?? NaN))
   }
 
   /**
@@ -535,202 +415,148 @@ export class PowerSchool {
    * @returns Promise<PowerSchoolResponse>
    */
   public getDataSubscriptionChanges(applicationName: string, version: number): Promise<PowerSchoolResponse> {
-    return this.setConfig()
+    return this.request()
       .get(`/ws/dataversion/${applicationName}/${version}`)
   }
 
-  // --------------------------------------------------------------------------
-  // Sending requests
-  // --------------------------------------------------------------------------
-
   /**
-   * Retrieves the count for the set endpoint.
+   * Creates a feed that follows the changes of a data subscription.
    *
-   * @returns {Promise<PowerSchoolResponse>}
+   * @param applicationName The name used when creating the subscription
+   * @param options Where to keep the version and how often to poll
+   * @returns {ChangeFeed}
    */
-  public count(): Promise<PowerSchoolResponse> {
-    this.requestConfig.endpoint += `/count`
-    this.requestConfig.includeProjection = false
-
-    return this.get()
+  public changes(applicationName: string, options: ChangeFeedOptions = {}): ChangeFeed {
+    return new ChangeFeed(this, applicationName, options)
   }
 
   /**
-   * Sends a get request with the ability to include an endpoint.
+   * Creates a typed function for each query that validates
+   * its arguments, sends the query and paginates the records.
    *
-   * @param endpoint Optionally include the endpoint
-   * @returns {Promise<PowerSchoolResponse>}
+   * @param queries The queries keyed by the name of their function
+   * @returns {PowerQueries<Q>}
    */
-  public get(endpoint: string = null): Promise<PowerSchoolResponse> {
-    if (endpoint) {
-      this.endpoint(endpoint)
+  public queries<Q extends Record<string, PowerQuery>>(queries: Q): PowerQueries<Q> {
+    const functions = {}
+
+    for (const [key, query] of Object.entries(queries)) {
+      functions[key] = (args: object = {}): Promise<object[]> => query.run(this, args)
     }
 
-    return this.setMethod('get')
-      .send()
+    return functions as PowerQueries<Q>
   }
 
-  /**
-   * Sends a post request to an endpoint with some data.
-   *
-   * @param endpoint The endpoint to which to send the request. Optional.
-   * @param data Data to send with the request. Optional.
-   * @returns {Promise<PowerSchoolResponse>}
-   */
-  public post(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
-    return this.setMethod('post')
-      .sendSugar(endpoint, data)
-  }
-
-  /**
-   * Sends a put request to an endpoint with some data.
-   *
-   * @param endpoint The endpoint to which to send the request. Optional.
-   * @param data Data to send with the request. Optional.
-   * @returns {Promise<PowerSchoolResponse>}
-   */
-  public put(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
-    return this.setMethod('put')
-      .sendSugar(endpoint, data)
-  }
+  // --------------------------------------------------------------------------
+  // Sending requests
+  // --------------------------------------------------------------------------
 
   /**
-   * Sends a path request to an endpoint with some data.
+   * Sends a request to PowerSchool using the given config,
+   * retrying failed attempts according to the retry policy.
    *
-   * @param endpoint The endpoint to which to send the request. Optional.
-   * @param data Data to send with the request. Optional.
+   * @param config The config of the request to send
    * @returns {Promise<PowerSchoolResponse>}
-   */
-  public patch(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
-    return this.setMethod('patch')
-      .sendSugar(endpoint, data)
+   * @throws {PowerSchoolError}
+   */
+  public async execute(config: PowerSchoolRequestConfig): Promise<PowerSchoolResponse> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.sendAuthenticated(config)
+      } catch (err) {
+        if (!this.retryPolicy.shouldRetry(err, config.method, config.endpoint, attempt)) {
+          throw err
+        }
+
+        const delay = this.retryPolicy.delay(err, attempt)
+        this.logger?.debug(`Retrying ${config.method.toUpperCase()} ${config.endpoint} in ${delay}ms`, {
+          attempt,
+          delay,
+          status: err?.status ?? null,
+          error: err?.message,
+        })
+
+        await sleep(delay)
+      }
+    }
   }
 
   /**
-   * Sends a delete request with the ability to include an endpoint.
+   * Sends a request with a valid token. If PowerSchool
+   * rejects the token, the request is replayed once with a new one.
    *
-   * @param endpoint Optionally include the endpoint
+   * @param config The config of the request to send
    * @returns {Promise<PowerSchoolResponse>}
+   * @throws {PowerSchoolError}
    */
-  public delete(endpoint: string = null): Promise<PowerSchoolResponse> {
-    if (endpoint) {
-      this.endpoint(endpoint)
-    }
+  protected async sendAuthenticated(config: PowerSchoolRequestConfig): Promise<PowerSchoolResponse> {
+    await this.retrieveToken()
+    const token = this.token
 
-    return this.setMethod('delete')
-      .send()
-  }
+    try {
+      return await this.dispatch(config)
+    } catch (err) {
+      if (!(err instanceof AuthenticationError)) {
+        throw err
+      }
 
-  /**
-   * Sugar for setting the endpoint and data before sending a request.
-   *
-   * @param endpoint The endpoint to which to send the request. Optional.
-   * @param data Data to send with the request. Optional.
-   * @returns {Promise<PowerSchoolResponse>}
-   */
-  protected sendSugar(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
-    if (endpoint !== null) {
-      this.setEndpoint(endpoint)
-    }
+      // Another request may have already replaced the rejected token
+      await this.retrieveToken(this.token === token)
 
-    if (data !== null) {
-      this.setData(data)
+      return this.dispatch(config)
     }
-
-    return this.send()
   }
 
   /**
-   * Sends the request to PowerSchool.
+   * Makes a single request through the middleware. Only HTTP requests
+   * wait for the rate limiter, so responses given by middleware, such
+   * as cached ones, don't use up the limit.
    *
+   * @param config The config of the request to send
    * @returns {Promise<PowerSchoolResponse>}
+   * @throws {PowerSchoolError}
    */
-  public async send(): Promise<PowerSchoolResponse> {
-    const res = await this.client.request(this.getAxiosRequestConfig())
+  protected async dispatch(config: PowerSchoolRequestConfig): Promise<PowerSchoolResponse> {
+    const { context, response } = await this.perform('request', config, this.getAxiosRequestConfig(config))
+    // Dates of responses are decoded in the zone they're written in
+    context.config.timeZone = this.serializer.getTimeZone()
 
-    return new PowerSchoolResponse(res.data)
+    return new PowerSchoolResponse(response.data, context.config)
   }
 
   /**
-   * Converts the internal request config
-   * to an Axios request config object.
+   * Sends a request through the middleware, converting
+   * a failed HTTP request into the matching PowerSchoolError.
    *
-   * @returns {AxiosRequestConfig}
+   * @param type Whether the request retrieves a token
+   * @param config The config the request was built from
+   * @param axiosConfig The config given to axios
+   * @returns {Promise<PipelineResult>}
+   * @throws {PowerSchoolError}
    */
-  public getAxiosRequestConfig(): AxiosRequestConfig {
+  protected perform(type: MiddlewareRequestType, config: PowerSchoolRequestConfig, axiosConfig: AxiosRequestConfig): Promise<PipelineResult> {
+    return this.middleware.run(type, config, axiosConfig, async (axiosConfig: AxiosRequestConfig): Promise<MiddlewareResponse> => {
+      try {
+        return type === 'token'
+          ? await this.client.post(axiosConfig.url, axiosConfig.data, axiosConfig)
+          : await this.limiter.schedule(() => this.client.request(axiosConfig))
+      } catch (err) {
+        throw PowerSchoolError.fromAxiosError(err, axiosConfig)
+      }
+    })
+  }
+
+  public getAxiosRequestConfig(config: PowerSchoolRequestConfig = this.requestConfig): AxiosRequestConfig {
     return {
-      url: this.sanitizeEndpoint(this.requestConfig.endpoint),
-      method: this.requestConfig.method,
+      url: this.sanitizeEndpoint(config.endpoint),
+      method: config.method,
       headers: {
-        'Authorization': `Bearer: ${this.token}`,
+        'Authorization': `Bearer ${this.token}`,
         'Accept': 'application/json',
         'Content-Type': 'application/json',
       },
-      params: this.buildParams(),
-      data: this.requestConfig.data,
-    }
-  }
-
-  /**
-   * Builds the query parameters for Axios
-   *
-   * @returns {object}
-   */
-  public buildParams(): object {
-    return {
-      ...(this.requestConfig.includeProjection ? { projection: '*' } : {}),
-      ...(this.requestConfig.method.toLowerCase() === 'get' ? { ...this.requestConfig.data } : {}),
-      ...this.requestConfig.params,
+      params: this.buildParams(config),
+      data: config.data,
     }
   }
-
-  public sanitizeEndpoint(endpoint: string): string {
-    const sanitized = endpoint.replace(/\/{2,}/g, '/')
-
-    if (sanitized.endsWith('/')) {
-      return sanitized.slice(0, -1)
-    }
-
-    return sanitized
-  }
-
-  /**
-   * Casts certain data types to a way that PowerSchool
-   * will accept without returning an error.
-   *
-   * @param data The request data that needs to be converted.
-   * @returns {object}
-   */
-  public castValuesToString(data: object): object {
-    const output = {}
-
-    for (const key in data) {
-      let value = data[key]
-
-      if (typeof value === 'object' && !Array.isArray(value)) {
-        output[key] = this.castValuesToString(value)
-        continue
-      }
-
-      output[key] = this.castValueToString(value)
-    }
-
-    return output
-  }
-
-  public castValueToString(value: any): string {
-    if (typeof value === 'boolean') {
-      return value ? '1' : '0'
-    }
-
-    if (value === null || typeof value === 'undefined') {
-      return ''
-    }
-
-    if (Array.isArray(value)) {
-      return value.join(',')
-    }
-
-    return String(value)
-  }
 }
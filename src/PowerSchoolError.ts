@@ -0,0 +1,200 @@
+import { AxiosError, AxiosRequestConfig } from 'axios'
+
+export interface PowerSchoolErrorDetail {
+  message: string
+  field?: string
+  code?: string
+  resource?: string
+}
+
+export interface PowerSchoolErrorOptions {
+  endpoint?: string
+  method?: string
+  status?: number
+  errors?: PowerSchoolErrorDetail[]
+  data?: unknown
+  headers?: Record<string, string>
+  cause?: unknown
+}
+
+export class PowerSchoolError extends Error {
+  endpoint: string|null
+  method: string|null
+  status: number|null
+  errors: PowerSchoolErrorDetail[]
+  data: unknown
+  headers: Record<string, string>
+
+  constructor(message: string, options: PowerSchoolErrorOptions = {}) {
+    super(message, options.cause ? { cause: options.cause } : undefined)
+    this.name = new.target.name
+    this.endpoint = options.endpoint ?? null
+    this.method = options.method ?? null
+    this.status = options.status ?? null
+    this.errors = options.errors ?? []
+    this.data = options.data ?? null
+    this.headers = options.headers ?? {}
+  }
+
+  /**
+   * Converts an error thrown by Axios into the error class
+   * matching the response status, normalizing PowerSchool's payload.
+   *
+   * @param err The error thrown while sending the request
+   * @param config The request config that was sent
+   * @returns {PowerSchoolError}
+   */
+  public static fromAxiosError(err: unknown, config: AxiosRequestConfig = {}): PowerSchoolError {
+    if (err instanceof PowerSchoolError) {
+      return err
+    }
+
+    const response = (err as AxiosError)?.response
+    const status = response?.status ?? null
+    const data = response?.data ?? null
+    const errors = parseErrorDetails(data)
+    const message = parseErrorMessage(data)
+      || errors[0]?.message
+      || (err as Error)?.message
+      || 'PowerSchool request failed'
+    const ErrorClass = errorClassForStatus(status)
+
+    return new ErrorClass(message, {
+      endpoint: config.url,
+      method: config.method ? config.method.toUpperCase() : null,
+      status,
+      errors,
+      data,
+      headers: normalizeHeaders(response?.headers),
+      cause: err,
+    })
+  }
+}
+
+/**
+ * The token was missing, invalid or expired,
+ * or the plugin's credentials were rejected.
+ */
+export class AuthenticationError extends PowerSchoolError {}
+
+/**
+ * The plugin isn't allowed to access the resource,
+ * usually because a field is missing from its access request.
+ */
+export class AuthorizationError extends PowerSchoolError {}
+
+export class NotFoundError extends PowerSchoolError {}
+
+/**
+ * The request was rejected because of its data,
+ * such as a failed insert or an invalid PowerQuery argument.
+ */
+export class ValidationError extends PowerSchoolError {}
+
+export class ServerError extends PowerSchoolError {}
+
+const errorClassForStatus = (status: number|null): typeof PowerSchoolError => {
+  if (status === 401) {
+    return AuthenticationError
+  }
+
+  if (status === 403) {
+    return AuthorizationError
+  }
+
+  if (status === 404) {
+    return NotFoundError
+  }
+
+  if (status === 400 || status === 409 || status === 422) {
+    return ValidationError
+  }
+
+  if (status >= 500) {
+    return ServerError
+  }
+
+  return PowerSchoolError
+}
+
+const normalizeHeaders = (headers: unknown): Record<string, string> => {
+  const normalized = {}
+
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    normalized[key.toLowerCase()] = String(value)
+  }
+
+  return normalized
+}
+
+const parseErrorMessage = (data: unknown): string|null => {
+  if (typeof data === 'string') {
+    return data.trim() || null
+  }
+
+  if (!data || typeof data !== 'object') {
+    return null
+  }
+
+  const message = data['message'] ?? data['error_description'] ?? data['error']
+
+  return typeof message === 'string' ? message : null
+}
+
+/**
+ * Normalizes the different error list formats PowerSchool uses:
+ * the `errors` array of the REST and PowerQuery endpoints and
+ * the per-record `error_message` of table write results.
+ *
+ * @param data The response payload
+ * @returns {PowerSchoolErrorDetail[]}
+ */
+export const parseErrorDetails = (data: unknown): PowerSchoolErrorDetail[] => {
+  if (!data || typeof data !== 'object') {
+    return []
+  }
+
+  const entries: unknown[] = []
+
+  if (Array.isArray(data['errors'])) {
+    entries.push(...data['errors'])
+  }
+
+  const results = data['result'] ?? data['results']
+
+  for (const result of [].concat(results ?? [])) {
+    const errors = result?.error_message?.error ?? result?.error_message
+
+    if (errors) {
+      entries.push(...[].concat(errors))
+    }
+  }
+
+  return entries.map(toErrorDetail)
+}
+
+const toErrorDetail = (entry: unknown): PowerSchoolErrorDetail => {
+  if (typeof entry === 'string') {
+    return { message: entry }
+  }
+
+  const detail: PowerSchoolErrorDetail = {
+    message: String(entry['message'] ?? entry['error_description'] ?? entry['description'] ?? entry['code'] ?? entry['error_code'] ?? ''),
+  }
+  const field = entry['field'] ?? entry['error_field']
+  const code = entry['code'] ?? entry['error_code']
+
+  if (field) {
+    detail.field = String(field)
+  }
+
+  if (code) {
+    detail.code = String(code)
+  }
+
+  if (entry['resource']) {
+    detail.resource = String(entry['resource'])
+  }
+
+  return detail
+}
@@ -0,0 +1,164 @@
+import { PowerSchool, PowerSchoolOptions } from './PowerSchool.js'
+
+export interface TenantConfig extends PowerSchoolOptions {
+  url: string
+  clientId: string
+  clientSecret: string
+}
+
+/**
+ * Returns the config of a tenant, or nothing when the tenant is unknown.
+ */
+export type TenantConfigProvider = (tenant: string) => TenantConfig|null|undefined
+
+export interface PowerSchoolPoolOptions {
+  /**
+   * Options shared by every client, which each tenant's config
+   * overrides. A shared token store keeps tokens apart by server
+   * and plugin, so tokens survive clients being evicted.
+   */
+  defaults?: PowerSchoolOptions
+
+  /**
+   * The number of milliseconds a client can go unused before it's
+   * evicted. Idle clients are evicted as other tenants are used.
+   */
+  idleTimeout?: number
+}
+
+interface PooledClient {
+  client: PowerSchool
+  lastUsed: number
+}
+
+/**
+ * Keeps a client per tenant, such as per district, creating each one
+ * the first time it's used. Every client has its own token, retries
+ * and rate limits. Use `table()` or `request()` on the client rather
+ * than its fluent functions so requests don't share state.
+ */
+export class PowerSchoolPool {
+  protected provider: TenantConfigProvider
+  protected options: PowerSchoolPoolOptions
+  protected clients: Map<string, PooledClient> = new Map()
+
+  constructor(provider: TenantConfigProvider|Record<string, TenantConfig>, options: PowerSchoolPoolOptions = {}) {
+    this.provider = typeof provider === 'function'
+      ? provider
+      : (tenant: string): TenantConfig => provider[tenant]
+    this.options = options
+  }
+
+  /**
+   * Gets the client of a tenant, creating it when needed.
+   *
+   * @param tenant The name of the tenant
+   * @returns {PowerSchool}
+   * @throws {Error} When the tenant has no config
+   */
+  public for(tenant: string): PowerSchool {
+    const now = Date.now()
+    this.evictIdle(now)
+
+    let pooled = this.clients.get(tenant)
+
+    if (!pooled) {
+      pooled = { client: this.create(tenant), lastUsed: now }
+      this.clients.set(tenant, pooled)
+    }
+
+    pooled.lastUsed = now
+
+    return pooled.client
+  }
+
+  /**
+   * @alias for
+   */
+  public client(tenant: string): PowerSchool {
+    return this.for(tenant)
+  }
+
+  /**
+   * Determines whether a client has been created for a tenant.
+   *
+   * @param tenant The name of the tenant
+   * @returns {boolean}
+   */
+  public has(tenant: string): boolean {
+    return this.clients.has(tenant)
+  }
+
+  /**
+   * Gets the tenants that currently have a client.
+   *
+   * @returns {string[]}
+   */
+  public tenants(): string[] {
+    return [...this.clients.keys()]
+  }
+
+  public get size(): number {
+    return this.clients.size
+  }
+
+  /**
+   * Removes the client of a tenant. The next use creates a new one.
+   *
+   * @param tenant The name of the tenant
+   * @returns {boolean} Whether a client was removed
+   */
+  public evict(tenant: string): boolean {
+    return this.clients.delete(tenant)
+  }
+
+  /**
+   * Removes the clients that haven't been used within the idle timeout.
+   *
+   * @param now The current time in milliseconds
+   * @returns {string[]} The tenants that were evicted
+   */
+  public evictIdle(now: number = Date.now()): string[] {
+    const timeout = this.options.idleTimeout
+    const evicted: string[] = []
+
+    if (!timeout) {
+      return evicted
+    }
+
+    for (const [tenant, pooled] of this.clients) {
+      if (now - pooled.lastUsed > timeout) {
+        this.clients.delete(tenant)
+        evicted.push(tenant)
+      }
+    }
+
+    return evicted
+  }
+
+  /**
+   * Removes every client.
+   *
+   * @returns {this}
+   */
+  public clear(): this {
+    this.clients.clear()
+
+    return this
+  }
+
+  protected create(tenant: string): PowerSchool {
+    const config = this.provider(tenant)
+
+    if (!config) {
+      throw new Error(`No PowerSchool config was found for the tenant "${tenant}"`)
+    }
+
+    const { url, clientId, clientSecret, ...options } = config
+
+    return new PowerSchool(url, clientId, clientSecret, {
+      ...this.options.defaults,
+      ...options,
+    })
+  }
+}
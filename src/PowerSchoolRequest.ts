@@ -0,0 +1,65 @@
+import { AxiosRequestConfig } from 'axios'
+import { PowerSchool } from './PowerSchool.js'
+import { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+import { PowerSchoolResponse } from './PowerSchoolResponse.js'
+import { RequestBuilder } from './RequestBuilder.js'
+import { Serializer } from './Serializer.js'
+import { Logger } from './Logger.js'
+
+/**
+ * An immutable request created by `PowerSchool.request()`.
+ * Every fluent function returns a new request, leaving
+ * the original untouched.
+ */
+export class PowerSchoolRequest extends RequestBuilder {
+  protected client: PowerSchool
+
+  constructor(client: PowerSchool, config: PowerSchoolRequestConfig = new PowerSchoolRequestConfig) {
+    super()
+    this.client = client
+    this.requestConfig = config
+  }
+
+  /**
+   * @alias setTable
+   */
+  public table(table: string): this {
+    return this.setTable(table)
+  }
+
+  /**
+   * Gets the client that sends the request.
+   *
+   * @returns {PowerSchool}
+   */
+  public getClient(): PowerSchool {
+    return this.client
+  }
+
+  public getSerializer(): Serializer {
+    return this.client.getSerializer()
+  }
+
+  public getLogger(): Logger|null {
+    return this.client.getLogger()
+  }
+
+  public execute(config: PowerSchoolRequestConfig): Promise<PowerSchoolResponse> {
+    return this.client.execute(config)
+  }
+
+  public getAxiosRequestConfig(config: PowerSchoolRequestConfig = this.requestConfig): AxiosRequestConfig {
+    return this.client.getAxiosRequestConfig(config)
+  }
+
+  /**
+   * Creates a copy of the request to be changed.
+   *
+   * @returns {this}
+   */
+  protected editable(): this {
+    const Request = this.constructor as new (client: PowerSchool, config: PowerSchoolRequestConfig) => this
+
+    return new Request(this.client, this.requestConfig.clone())
+  }
+}
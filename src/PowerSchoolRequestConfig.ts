@@ -0,0 +1,28 @@
+import { Method } from 'axios'
+import { ColumnTypes } from './decode.js'
+
+export class PowerSchoolRequestConfig {
+  endpoint: string
+  method: Method = 'get'
+  table: string
+  data: object = {}
+  params: object = {}
+  id: number
+  includeProjection: boolean = false
+  pageKey: string
+  columnTypes: ColumnTypes = null
+  timeZone: string = null
+
+  /**
+   * Creates a copy of the config so that it can be
+   * modified without affecting the original.
+   *
+   * @returns {PowerSchoolRequestConfig}
+   */
+  public clone(): PowerSchoolRequestConfig {
+    return Object.assign(new PowerSchoolRequestConfig, this, {
+      data: { ...this.data },
+      params: { ...this.params },
+    })
+  }
+}
@@ -1,13 +1,247 @@
-export class PowerSchoolResponse {
+import { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+import { ColumnTypes, decodeRecord, toColumnTypes } from './decode.js'
+import { TableMetadata } from './TableMetadata.js'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type PowerSchoolRecord = Record<string, any>
+
+export class PowerSchoolResponse<T extends object = PowerSchoolRecord> {
   public rawData: object
+  public pageKey: string
+  public table: string
+  public timeZone: string|null
+  protected data: T[]
 
-  constructor(data: object) {
+  constructor(data: object, config: Partial<PowerSchoolRequestConfig> = {}) {
     this.rawData = data
+    this.pageKey = config.pageKey
+    this.table = config.table
+    this.timeZone = config.timeZone ?? null
+    this.data = this.unwrap()
+
+    if (config.columnTypes) {
+      this.data = this.data.map(record => decodeRecord<T>(record, config.columnTypes, this.timeZone))
+    }
+  }
+
+  /**
+   * Creates a copy of the response with its values converted to numbers,
+   * booleans, dates and nulls, using table metadata or a map of column types.
+   *
+   * @param types The metadata of the table or the types of its columns
+   * @returns {PowerSchoolResponse<D>}
+   */
+  public decode<D extends object = T>(types: ColumnTypes|TableMetadata|TableMetadata[]): PowerSchoolResponse<D> {
+    const response = new PowerSchoolResponse<D>(this.rawData, { pageKey: this.pageKey, table: this.table, timeZone: this.timeZone })
+    response.data = this.data.map(record => decodeRecord<D>(record, toColumnTypes(types), this.timeZone))
+
+    return response
+  }
+
+  /**
+   * Gets the records of the response.
+   *
+   * @returns {T[]}
+   */
+  public toArray(): T[] {
+    return [...this.data]
+  }
+
+  /**
+   * @alias toArray
+   */
+  public all(): T[] {
+    return this.toArray()
+  }
+
+  /**
+   * Gets the first record of the response.
+   *
+   * @returns {T|null}
+   */
+  public first(): T|null {
+    return this.data[0] ?? null
+  }
+
+  public isEmpty(): boolean {
+    return this.data.length === 0
+  }
+
+  public map<U>(callback: (record: T, index: number) => U): U[] {
+    return this.data.map(callback)
+  }
+
+  public filter(callback: (record: T, index: number) => boolean): T[] {
+    return this.data.filter(callback)
+  }
+
+  /**
+   * Gets the values of a single field from every record.
+   *
+   * @param key The field to pluck
+   * @returns {T[K][]}
+   */
+  public pluck<K extends keyof T>(key: K): T[K][] {
+    return this.data.map(record => record[key])
+  }
+
+  /**
+   * Keys the records by the value of a field.
+   * Later records replace earlier ones with the same value.
+   *
+   * @param key The field whose value should be used as the key
+   * @returns {Record<string, T>}
+   */
+  public keyBy<K extends keyof T>(key: K): Record<string, T> {
+    const keyed: Record<string, T> = {}
+
+    for (const record of this.data) {
+      keyed[String(record[key])] = record
+    }
+
+    return keyed
+  }
+
+  /**
+   * The count of a count response or one made with `includeCount()`,
+   * otherwise the number of records in the response.
+   *
+   * @returns {number}
+   */
+  public get count(): number {
+    const count = this.rawData?.['count'] ?? this.rawData?.['resource']?.['count']
+
+    if (count !== undefined && count !== null && !isNaN(Number(count))) {
+      return Number(count)
+    }
+
+    return this.data.length
+  }
+
+  *[Symbol.iterator](): IterableIterator<T> {
+    yield* this.data
+  }
+
+  /**
+   * Finds the records in the response, accounting for the different
+   * envelopes PowerSchool uses:
+   *  - `{ record: [...] }` for tables and PowerQueries
+   *  - `{ id, tables: { ... } }` for a single table record
+   *  - `{ students: { student: [...] } }` for REST collections
+   *  - `{ student: { ... } }` for a single REST resource
+   *  - `{ count: n }` which has no records
+   *
+   * A page key with nested keys separated by a period, such as
+   * `students.student`, is used to find the records directly.
+   *
+   * @returns {T[]}
+   */
+  protected unwrap(): T[] {
+    const data = this.rawData
+
+    if (!data || typeof data !== 'object') {
+      return []
+    }
+
+    if (Array.isArray(data)) {
+      return data.map(record => this.flatten(record))
+    }
+
+    if (this.pageKey && this.pageKey.includes('.')) {
+      const records = this.pageKey.split('.')
+        .reduce((value, key) => value?.[key], data)
+
+      return this.wrap(records)
+    }
+
+    const pageKey = this.pageKey ?? 'record'
+
+    if (pageKey in data) {
+      return this.wrap(data[pageKey])
+    }
+
+    if ('tables' in data) {
+      return this.wrap(data)
+    }
+
+    const keys = this.dataKeys(data)
+
+    if (keys.length !== 1 || keys[0] === 'count' || keys[0] === 'resource') {
+      return []
+    }
+
+    const outer = keys[0]
+    const value = data[outer]
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return this.wrap(value || null)
+    }
+
+    const inner = this.dataKeys(value)
+      .find(key => outer === `${key}s` || outer === `${key}es`)
+
+    // An envelope with only metadata is an empty collection
+    if (inner === undefined && this.dataKeys(value).length === 0) {
+      return []
+    }
+
+    return inner === undefined
+      ? this.wrap(value)
+      : this.wrap(value[inner])
   }
 
-  *[Symbol.iterator](): IterableIterator<object> {
-    for (const entry in this.rawData) {
-      yield this.rawData[entry];
+  /**
+   * Normalizes one or many records to a flattened array.
+   *
+   * @param records A record, an array of records or nothing
+   * @returns {T[]}
+   */
+  protected wrap(records: unknown): T[] {
+    if (records === null || typeof records === 'undefined' || records === '') {
+      return []
     }
+
+    return (Array.isArray(records) ? records : [records])
+      .map(record => this.flatten(record))
+  }
+
+  /**
+   * Moves the fields nested under `tables` to the top of the record.
+   * The request's table takes precedence over any other tables.
+   *
+   * @param record The record as returned by PowerSchool
+   * @returns {T}
+   */
+  protected flatten(record: unknown): T {
+    if (!record || typeof record !== 'object' || !record['tables'] || typeof record['tables'] !== 'object') {
+      return record as T
+    }
+
+    const { tables, ...rest } = record as PowerSchoolRecord
+
+    if (rest.name && rest.name in tables) {
+      delete rest.name
+    }
+
+    const flattened = { ...rest }
+
+    for (const [table, fields] of Object.entries(tables)) {
+      if (table !== this.table) {
+        Object.assign(flattened, fields)
+      }
+    }
+
+    return Object.assign(flattened, tables[this.table] ?? {}) as T
+  }
+
+  /**
+   * Gets the keys of an object excluding PowerSchool's
+   * metadata keys such as `@expansions`.
+   *
+   * @param data The object
+   * @returns {string[]}
+   */
+  protected dataKeys(data: object): string[] {
+    return Object.keys(data).filter(key => !key.startsWith('@'))
   }
 }
@@ -0,0 +1,301 @@
+import { SchoolYear } from './SchoolYear.js'
+
+export type QueryValue = string|number|boolean|Date
+
+/**
+ * Thrown when an expression can't be rendered into
+ * valid PowerSchool query syntax.
+ */
+export class QueryExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+/**
+ * A list of conditions that must all match, rendered in the syntax used
+ * by the `q` parameter of tables and the `$q` filter of PowerQueries.
+ * PowerSchool only supports combining conditions with "and".
+ */
+export class QueryExpression<F extends string = string> {
+  protected conditions: string[]
+  protected fields: F[]
+
+  constructor(conditions: string[] = [], fields: F[] = []) {
+    this.conditions = conditions
+    this.fields = fields
+  }
+
+  /**
+   * Starts a condition for a field.
+   *
+   * @param field The field to compare, such as `students.grade_level`
+   * @returns {QueryCondition}
+   */
+  public static where<F extends string>(field: F): QueryCondition<F> {
+    return new QueryExpression<F>().and(field)
+  }
+
+  /**
+   * Adds a condition for a field, or all of the conditions of another expression.
+   *
+   * @param expression A field name or another expression
+   * @returns {QueryCondition|QueryExpression}
+   */
+  public and<G extends string>(field: G): QueryCondition<F|G>
+  public and<G extends string>(expression: QueryExpression<G>): QueryExpression<F|G>
+  public and<G extends string>(expression: G|QueryExpression<G>): QueryCondition<F|G>|QueryExpression<F|G> {
+    if (expression instanceof QueryExpression) {
+      return new QueryExpression<F|G>([...this.conditions, ...expression.conditions], [...this.fields, ...expression.fields])
+    }
+
+    return new QueryCondition<F|G>(this, expression)
+  }
+
+  /**
+   * Creates a new expression with an additional rendered condition.
+   *
+   * @param condition The rendered condition
+   * @param field The field the condition compares
+   * @returns {QueryExpression}
+   */
+  public push(condition: string, field: F = null): QueryExpression<F> {
+    return new QueryExpression<F>([...this.conditions, condition], field ? [...this.fields, field] : [...this.fields])
+  }
+
+  /**
+   * Gets the fields compared by the conditions.
+   *
+   * @returns {string[]}
+   */
+  public getFields(): F[] {
+    return [...new Set(this.fields)]
+  }
+
+  public isEmpty(): boolean {
+    return this.conditions.length === 0
+  }
+
+  public toArray(): string[] {
+    return [...this.conditions]
+  }
+
+  public toString(): string {
+    return this.conditions.join(';')
+  }
+}
+
+/**
+ * A field waiting to be compared. The field names of typed
+ * table requests are checked through the `F` type.
+ */
+export class QueryCondition<F extends string = string> {
+  protected expression: QueryExpression<F>
+  protected field: F
+
+  constructor(expression: QueryExpression<F>, field: F) {
+    if (!/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(field)) {
+      throw new QueryExpressionError(`"${field}" is not a valid field name`)
+    }
+
+    this.expression = expression
+    this.field = field
+  }
+
+  public eq(value: QueryValue): QueryExpression<F> {
+    return this.compare('==', value)
+  }
+
+  /**
+   * @alias eq
+   */
+  public equals(value: QueryValue): QueryExpression<F> {
+    return this.eq(value)
+  }
+
+  public ne(value: QueryValue): QueryExpression<F> {
+    return this.compare('!=', value)
+  }
+
+  /**
+   * @alias ne
+   */
+  public notEquals(value: QueryValue): QueryExpression<F> {
+    return this.ne(value)
+  }
+
+  public gt(value: QueryValue): QueryExpression<F> {
+    return this.compare('=gt=', value)
+  }
+
+  public gte(value: QueryValue): QueryExpression<F> {
+    return this.compare('=ge=', value)
+  }
+
+  public lt(value: QueryValue): QueryExpression<F> {
+    return this.compare('=lt=', value)
+  }
+
+  public lte(value: QueryValue): QueryExpression<F> {
+    return this.compare('=le=', value)
+  }
+
+  /**
+   * Matches values between two values, inclusive.
+   *
+   * @param from The lowest value
+   * @param to The highest value
+   * @returns {QueryExpression}
+   */
+  public between(from: QueryValue, to: QueryValue): QueryExpression<F> {
+    return this.gte(from)
+      .and(this.field)
+      .lte(to)
+  }
+
+  /**
+   * Matches any of the values.
+   *
+   * @param values The values to match
+   * @returns {QueryExpression}
+   */
+  public in(values: QueryValue[]): QueryExpression<F> {
+    if (values.length === 0) {
+      throw new QueryExpressionError(`At least one value is required to compare "${this.field}"`)
+    }
+
+    const list = values.map(value => this.formatValue(value, /,/))
+
+    return this.expression.push(`${this.field}=in=(${list.join(',')})`, this.field)
+  }
+
+  /**
+   * Matches the yearid of a school year, such as `yearid==34`.
+   *
+   * @param year The school year, defaults to the current one
+   * @returns {QueryExpression}
+   */
+  public isYear(year: SchoolYear = SchoolYear.current()): QueryExpression<F> {
+    return this.eq(year.yearId)
+  }
+
+  /**
+   * Matches the termids of a school year, such as `termid=ge=3400;termid=le=3499`.
+   *
+   * @param year The school year, defaults to the current one
+   * @returns {QueryExpression}
+   */
+  public inYear(year: SchoolYear = SchoolYear.current()): QueryExpression<F> {
+    return this.between(year.termId, year.termId + 99)
+  }
+
+  public isNull(): QueryExpression<F> {
+    return this.expression.push(`${this.field}==null`, this.field)
+  }
+
+  public isNotNull(): QueryExpression<F> {
+    return this.expression.push(`${this.field}!=null`, this.field)
+  }
+
+  /**
+   * Matches a pattern where `*` is a wildcard.
+   *
+   * @param pattern The pattern to match, such as `Sm*th`
+   * @returns {QueryExpression}
+   */
+  public like(pattern: string): QueryExpression<F> {
+    return this.expression.push(`${this.field}==${this.formatValue(pattern, null, true)}`, this.field)
+  }
+
+  public contains(value: string): QueryExpression<F> {
+    return this.like(`*${this.formatValue(value)}*`)
+  }
+
+  public startsWith(value: string): QueryExpression<F> {
+    return this.like(`${this.formatValue(value)}*`)
+  }
+
+  public endsWith(value: string): QueryExpression<F> {
+    return this.like(`*${this.formatValue(value)}`)
+  }
+
+  protected compare(operator: string, value: QueryValue): QueryExpression<F> {
+    return this.expression.push(`${this.field}${operator}${this.formatValue(value)}`, this.field)
+  }
+
+  /**
+   * Converts a value to the way PowerSchool expects it, rejecting
+   * values that would change the meaning of the expression, such as
+   * empty strings or ones containing `;`, `=`, `(` or `)`.
+   *
+   * @param value The value to format
+   * @param reserved Additional characters that aren't allowed
+   * @param wildcards Whether `*` is allowed as a wildcard
+   * @returns {string}
+   */
+  protected formatValue(value: QueryValue, reserved: RegExp = null, wildcards: boolean = false): string {
+    if (value === null || typeof value === 'undefined') {
+      throw new QueryExpressionError(`Use isNull() or isNotNull() to compare "${this.field}" to null`)
+    }
+
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) {
+        throw new QueryExpressionError(`Invalid date given for "${this.field}"`)
+      }
+
+      return formatDate(value)
+    }
+
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0'
+    }
+
+    if (typeof value === 'number') {
+      if (!isFinite(value)) {
+        throw new QueryExpressionError(`Invalid number given for "${this.field}"`)
+      }
+
+      return String(value)
+    }
+
+    const string = String(value)
+
+    if (string === '') {
+      throw new QueryExpressionError(`An empty value can't be compared to "${this.field}", use isNull() instead`)
+    }
+
+    // Separators, operators and lists would end the value early
+    if (/[;=()]/.test(string) || (reserved && reserved.test(string))) {
+      throw new QueryExpressionError(`The value "${string}" for "${this.field}" contains a reserved character`)
+    }
+
+    if (!wildcards && string.includes('*')) {
+      throw new QueryExpressionError(`The value "${string}" for "${this.field}" contains a wildcard, use like() instead`)
+    }
+
+    return string
+  }
+}
+
+/**
+ * Formats a date as PowerSchool expects dates in expressions (yyyy-mm-dd).
+ *
+ * @param date The date to format
+ * @returns {string}
+ */
+export const formatDate = (date: Date): string => {
+  const pad = (n: number): string => String(n).padStart(2, '0')
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Starts a query expression with a condition for a field.
+ *
+ * @param field The field to compare
+ * @returns {QueryCondition}
+ */
+export const where = <F extends string>(field: F): QueryCondition<F> => {
+  return QueryExpression.where(field)
+}
@@ -0,0 +1,113 @@
+import { sleep } from './sleep.js'
+
+/**
+ * Limits how many tasks run at once and how often they may start.
+ * Tasks waiting for a slot are started in the order they were scheduled.
+ */
+export class RateLimiter {
+  maxConcurrency: number
+  requestsPerSecond: number
+  protected active: number = 0
+  protected queue: (() => void)[] = []
+  protected nextStart: number = 0
+
+  /**
+   * @param maxConcurrency The maximum number of tasks running at once
+   * @param requestsPerSecond The maximum number of tasks started per second
+   * @throws {RangeError} When a limit isn't a positive number
+   */
+  constructor(maxConcurrency: number = Infinity, requestsPerSecond: number = Infinity) {
+    assertLimit('maxConcurrency', maxConcurrency)
+    assertLimit('requestsPerSecond', requestsPerSecond)
+
+    this.maxConcurrency = maxConcurrency
+    this.requestsPerSecond = requestsPerSecond
+  }
+
+  /**
+   * Runs a task once a slot is available and the rate allows it.
+   *
+   * @param task The task to run
+   * @returns {Promise<T>}
+   */
+  public async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire()
+
+    try {
+      return await task()
+    } finally {
+      this.release()
+    }
+  }
+
+  /**
+   * The number of tasks that are currently running.
+   *
+   * @returns {number}
+   */
+  public running(): number {
+    return this.active
+  }
+
+  /**
+   * The number of tasks waiting for a slot.
+   *
+   * @returns {number}
+   */
+  public pending(): number {
+    return this.queue.length
+  }
+
+  protected async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++
+    } else {
+      // The slot is handed over directly by release()
+      await new Promise<void>(resolve => this.queue.push(resolve))
+    }
+
+    await this.throttle()
+  }
+
+  protected release(): void {
+    const next = this.queue.shift()
+
+    if (next) {
+      next()
+      return
+    }
+
+    this.active--
+  }
+
+  /**
+   * Spaces task starts evenly so no more than
+   * the requests per second are started.
+   */
+  protected async throttle(): Promise<void> {
+    if (!isFinite(this.requestsPerSecond)) {
+      return
+    }
+
+    const now = Date.now()
+    const start = Math.max(now, this.nextStart)
+    this.nextStart = start + 1000 / this.requestsPerSecond
+
+    if (start > now) {
+      await sleep(start - now)
+    }
+  }
+}
+
+/**
+ * Ensures a limit lets tasks run, since a limit of zero would hold every task forever.
+ *
+ * @param name The name of the limit
+ * @param value The value of the limit
+ * @throws {RangeError} When the limit isn't a positive number
+ */
+const assertLimit = (name: string, value: number): void => {
+  if (typeof value !== 'number' || isNaN(value) || value <= 0) {
+    throw new RangeError(`The ${name} must be a positive number, received ${value}`)
+  }
+}
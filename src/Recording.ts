@@ -0,0 +1,194 @@
+import { AxiosRequestConfig } from 'axios'
+import { Middleware, MiddlewareContext, MiddlewareResponse } from './Middleware.js'
+import { PowerSchoolError } from './PowerSchoolError.js'
+import { readJsonFile, writeJsonFile } from './jsonFile.js'
+import { redact } from './redact.js'
+import { stableStringify } from './stableStringify.js'
+
+export type RecordingMode = 'record'|'replay'
+
+export interface RecordingOptions {
+  /**
+   * Whether responses of the server are recorded or recorded ones are replayed.
+   */
+  mode: RecordingMode
+
+  /**
+   * The fixture file interactions are written to or read from.
+   */
+  path: string
+}
+
+export interface RecordedRequest {
+  method: string
+  endpoint: string
+  params: object|null
+  data: unknown
+}
+
+export interface RecordedResponse {
+  status: number
+  data: unknown
+}
+
+export interface RecordedInteraction {
+  request: RecordedRequest
+  response: RecordedResponse
+}
+
+/**
+ * Thrown when a replayed request has no recorded response.
+ */
+export class RecordingError extends Error {
+  readonly request: RecordedRequest
+
+  constructor(message: string, request: RecordedRequest) {
+    super(message)
+    this.name = new.target.name
+    this.request = request
+  }
+}
+
+/**
+ * Records the requests of a client and the responses of PowerSchool
+ * to a fixture file, or replays them without a server. Requests are
+ * matched by their method, endpoint, params and body. Credentials
+ * and tokens are scrubbed before anything is written.
+ */
+export class Recording implements Middleware {
+  readonly mode: RecordingMode
+  readonly path: string
+  protected secrets: () => string[]
+  protected interactions: RecordedInteraction[] = []
+  protected loading: Promise<void>|null = null
+  protected replayed: Map<string, number> = new Map()
+  protected saving: Promise<void> = Promise.resolve()
+
+  /**
+   * @param options Whether to record or replay and the fixture file
+   * @param secrets Gets the values to scrub, such as the client secret and token
+   */
+  constructor(options: RecordingOptions, secrets: () => string[] = (): string[] => []) {
+    this.mode = options.mode
+    this.path = options.path
+    this.secrets = secrets
+  }
+
+  /**
+   * Answers a request with its recorded response when replaying.
+   * Repeated requests get the responses in the order they were recorded.
+   *
+   * @throws {RecordingError} When no response was recorded for the request
+   * @throws {PowerSchoolError} When the recorded response was an error
+   */
+  public beforeRequest = async (context: MiddlewareContext): Promise<MiddlewareResponse|void> => {
+    if (this.mode !== 'replay') {
+      return
+    }
+
+    await this.load()
+
+    const request = this.describe(context.axiosConfig)
+    const key = stableStringify(request)
+    const matches = this.interactions.filter(interaction => stableStringify(interaction.request) === key)
+
+    if (matches.length === 0) {
+      throw new RecordingError(`No recorded response in ${this.path} matches ${request.method} ${request.endpoint} ${JSON.stringify(request.params)}`, request)
+    }
+
+    const count = this.replayed.get(key) ?? 0
+    const { response } = matches[Math.min(count, matches.length - 1)]
+    this.replayed.set(key, count + 1)
+
+    if (response.status >= 400) {
+      throw PowerSchoolError.fromAxiosError({
+        message: `Request failed with status code ${response.status}`,
+        response: { ...response, headers: {} },
+      }, context.axiosConfig)
+    }
+
+    return { status: response.status, data: response.data }
+  }
+
+  public afterResponse = async (context: MiddlewareContext, response: MiddlewareResponse): Promise<void> => {
+    if (this.mode === 'record') {
+      await this.record(context, { status: response.status ?? 200, data: response.data })
+    }
+  }
+
+  public onError = async (context: MiddlewareContext, error: unknown): Promise<void> => {
+    if (this.mode === 'record' && error instanceof PowerSchoolError && error.status !== null) {
+      await this.record(context, { status: error.status, data: error.data })
+    }
+  }
+
+  /**
+   * Gets the interactions recorded or loaded so far.
+   *
+   * @returns {RecordedInteraction[]}
+   */
+  public getInteractions(): RecordedInteraction[] {
+    return [...this.interactions]
+  }
+
+  /**
+   * Waits for recorded interactions to be written.
+   *
+   * @returns {Promise<void>}
+   */
+  public flush(): Promise<void> {
+    return this.saving
+  }
+
+  protected load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = readJsonFile<RecordedInteraction[]>(this.path).then(file => {
+        this.interactions = Array.isArray(file.interactions) ? file.interactions : []
+      })
+    }
+
+    return this.loading
+  }
+
+  /**
+   * Adds an interaction and writes every interaction to the fixture file,
+   * one write at a time.
+   *
+   * @param context The context of the request
+   * @param response The response to record
+   * @returns {Promise<void>}
+   */
+  protected record(context: MiddlewareContext, response: RecordedResponse): Promise<void> {
+    this.interactions.push(redact({
+      request: this.describe(context.axiosConfig),
+      response,
+    }, this.secrets()))
+
+    this.saving = this.saving
+      .then(() => writeJsonFile(this.path, { interactions: this.interactions }, 2))
+
+    return this.saving
+  }
+
+  /**
+   * Describes a request by the parts it's matched on, scrubbing secrets.
+   *
+   * @param config The config given to axios
+   * @returns {RecordedRequest}
+   */
+  protected describe(config: AxiosRequestConfig): RecordedRequest {
+    return redact({
+      method: (config.method ?? 'get').toUpperCase(),
+      endpoint: config.url,
+      params: isEmpty(config.params) ? null : config.params,
+      data: isEmpty(config.data) ? null : config.data,
+    }, this.secrets())
+  }
+}
+
+const isEmpty = (value: unknown): boolean => {
+  return value === undefined
+    || value === null
+    || value === ''
+    || (typeof value === 'object' && Object.keys(value).length === 0)
+}
@@ -0,0 +1,911 @@
+import { AxiosRequestConfig, Method } from 'axios'
+import * as qs from 'qs'
+import type { Writable } from 'stream'
+import { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+import { PowerSchoolRecord, PowerSchoolResponse } from './PowerSchoolResponse.js'
+import { QueryExpression } from './QueryExpression.js'
+import { BulkOptions, BulkResult, BulkWriter, UpsertOptions, UpsertResult } from './BulkWriter.js'
+import { ExportOptions, ExportResult, Exporter } from './Exporter.js'
+import { ColumnTypes, toColumnTypes } from './decode.js'
+import { Serializer } from './Serializer.js'
+import type { Logger } from './Logger.js'
+import { TableMetadata } from './TableMetadata.js'
+
+/**
+ * The fluent functions shared by the client and its requests.
+ * Each function changes the config of the instance returned
+ * by `editable()` and returns that instance.
+ */
+export abstract class RequestBuilder {
+  protected requestConfig: PowerSchoolRequestConfig = new PowerSchoolRequestConfig
+
+  /**
+   * Gets the instance whose config should be changed
+   * by a fluent function.
+   *
+   * @returns {this}
+   */
+  protected abstract editable(): this
+
+  /**
+   * Sends a request to PowerSchool using the given config.
+   *
+   * @param config The config of the request to send
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public abstract execute(config: PowerSchoolRequestConfig): Promise<PowerSchoolResponse>
+
+  /**
+   * Converts the internal request config
+   * to an Axios request config object.
+   *
+   * @param config The request config to convert, defaults to the current one
+   * @returns {AxiosRequestConfig}
+   */
+  public abstract getAxiosRequestConfig(config?: PowerSchoolRequestConfig): AxiosRequestConfig
+
+  /**
+   * Gets a copy of the current request config.
+   *
+   * @returns {PowerSchoolRequestConfig}
+   */
+  public getConfig(): PowerSchoolRequestConfig {
+    return this.requestConfig.clone()
+  }
+
+  // --------------------------------------------------------------------------
+  // Fluent functions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Sets the custom table for the request
+   *
+   * @param table The custom table name for which you wish to interact
+   * @returns {this}
+   */
+  public setTable(table: string): this {
+    const endpoint: string = table.startsWith('/ws/schema/table')
+      ? table
+      : `/ws/schema/table/${table}`
+
+    return this.setEndpoint(endpoint)
+      .setPageKey('record')
+      .includeProjection()
+  }
+
+  /**
+   * @alias setTable
+   */
+  public forTable(table: string): this {
+    return this.setTable(table)
+  }
+
+  /**
+   * @alias setTable
+   */
+  public againstTable(table: string): this {
+    return this.setTable(table)
+  }
+
+  /**
+   * Fluently set the ID to be appended to the endpoint. The endpoint should be set first.
+   *
+   * @param id The id of the record you wish to query or modify
+   * @returns {this}
+   */
+  public setId(id: number): this {
+    return this.setEndpoint(this.requestConfig.endpoint + `/${id}`)
+  }
+
+  /**
+   * @alias setId
+   */
+  public id(id: number): this {
+    return this.setId(id)
+  }
+
+  /**
+   * @alias setId
+   */
+  public forId(id: number): this {
+    return this.setId(id)
+  }
+
+  /**
+   * Excludes the projection parameter from the request.
+   * Some requests will error when present.
+   *
+   * @returns {this}
+   */
+  public excludeProjection(): this {
+    const request = this.editable()
+    request.requestConfig.includeProjection = false
+
+    return request
+  }
+
+  /**
+   * @alias excludeProjection
+   */
+  public withoutProjection(): this {
+    return this.excludeProjection()
+  }
+
+  public includeProjection(): this {
+    const request = this.editable()
+    request.requestConfig.includeProjection = true
+
+    return request
+  }
+
+  /**
+   * Sets the endpoint for the request.
+   *
+   * @param endpoint The url path to which to send the request
+   * @returns {this}
+   */
+  public setEndpoint(endpoint: string): this {
+    const request = this.editable()
+    const config = request.requestConfig
+    config.endpoint = this.sanitizeEndpoint(endpoint)
+    const parts = config.endpoint.split('/')
+    const tail = parts.pop()
+    const hasId = tail !== '' && !isNaN(Number(tail))
+    config.id = hasId ? Number(tail) : null
+
+    if (config.endpoint.includes('/table/')) {
+      config.table = hasId
+        ? parts[parts.length - 1]
+        : tail
+
+      return request.includeProjection()
+    }
+
+    return request.excludeProjection()
+  }
+
+  /**
+   * @alias setEndpoint
+   */
+  public toEndpoint(endpoint: string): this {
+    return this.setEndpoint(endpoint)
+  }
+
+  /**
+   * @alias setEndpoint
+   */
+  public to(endpoint: string): this {
+    return this.setEndpoint(endpoint)
+  }
+
+  /**
+   * @alias setEndpoint
+   */
+  public endpoint(endpoint: string): this {
+    return this.setEndpoint(endpoint)
+  }
+
+  /**
+   * Sets the data that should be sent with the request.
+   * For GET requests, it will set query parameters.
+   * For POST and PUT/PATCH, it will be the json body.
+   *
+   * @param data The data to send with the request. The values will be cast as string
+   * @returns {this}
+   */
+  public setData(data: object): this {
+    const request = this.editable()
+    request.requestConfig.data = this.castValuesToString(data)
+
+    return request
+  }
+
+  /**
+   * @alias setData
+   */
+  public withData(data: object): this {
+    return this.setData(data)
+  }
+
+  /**
+   * @alias setData
+   */
+  public with(data: object): this {
+    return this.setData(data)
+  }
+
+  /**
+   * Sets the url's query string parameters
+   *
+   * @param queryParams The query params that should be added as a query string to the request url
+   * @returns {this}
+   */
+  public withQueryParams(queryParams: string|object): this {
+    const request = this.editable()
+    request.requestConfig.params = typeof queryParams === 'string'
+      ? qs.parse(queryParams)
+      : queryParams
+
+    return request
+  }
+
+  /**
+   * @alias withQueryParams
+   */
+  public query(queryParams: string|object): this {
+    return this.withQueryParams(queryParams)
+  }
+
+  /**
+   * Adds an entry to the query string.
+   *
+   * @param key The key of the param to set
+   * @param value The value of the parameter
+   * @returns {this}
+   */
+  public addQueryParam(key: string, value: any): this {
+    const request = this.editable()
+    request.requestConfig.params[key] = value
+
+    return request
+  }
+
+  /**
+   * Sets an entry on the data object
+   *
+   * @param key The key of the data object to set
+   * @param value The value for the key. Will be appriopriately cast as a string.
+   * @returns {this}
+   */
+  public setDataItem(key: string, value: any): this {
+    const request = this.editable()
+    const data = this.castValuesToString({ [key]: value })
+
+    if (key in data) {
+      request.requestConfig.data[key] = data[key]
+    }
+
+    return request
+  }
+
+  /**
+   * Sets the HTTP verb for the request: GET, POST, PUT, PATCH, DELETE
+   *
+   * @param method The HTTP verb to use for the request
+   * @returns {this}
+   */
+  public setMethod(method: Method): this {
+    const request = this.editable()
+    request.requestConfig.method = method
+
+    return request
+  }
+
+  /**
+   * @alias setMethod
+   */
+  public method(method: Method): this {
+    return this.setMethod(method)
+  }
+
+  /**
+   * Sets the key of the response that holds the records,
+   * such as `students.student` for a REST collection.
+   *
+   * @param key The key, with nested keys separated by a period
+   * @returns {this}
+   */
+  public setPageKey(key: string): this {
+    const request = this.editable()
+    request.requestConfig.pageKey = key
+
+    return request
+  }
+
+  /**
+   * Sets the name of the PowerQuery. If request data is included,
+   * the request will be sent.
+   *
+   * @param name The name of the PowerQuery. Can exclude endpoint prefix (/ws/schema/query)
+   * @param data The data to include with the request.
+   * @returns {this|PowerSchoolResponse}
+   */
+  public setNamedQuery(name: string, data: object = {}): this {
+    const endpoint: string = name.startsWith('/ws/schema/query')
+      ? name
+      : `/ws/schema/query/${name}`
+    const request = this.setEndpoint(endpoint.replace(/\/{2,}/g, '/'))
+      .setPageKey('record')
+
+    return Object.keys(data).length > 0
+      ? request.setData(data).setMethod('post')
+      : request.setMethod('post')
+  }
+
+  /**
+   * @alias setNamedQuery
+   */
+  public namedQuery(name: string, data: object = {}): this {
+    return this.setNamedQuery(name, data)
+  }
+
+  /**
+   * @alias setNamedQuery
+   */
+  public powerQuery(name: string, data: object = {}): this {
+    return this.setNamedQuery(name, data)
+  }
+
+  /**
+   * @alias setNamedQuery
+   */
+  public pq(name: string, data: object = {}): this {
+    return this.setNamedQuery(name, data)
+  }
+
+  /**
+   * Sets the q query string paramter.
+   *
+   * @param expression The query expression
+   * @returns {this}
+   */
+  public q(expression: string|string[]|QueryExpression): this {
+    return this.addQueryParam('q', this.buildExpression(expression))
+  }
+
+  /**
+   * @alias q
+   */
+  public queryExpression(expression: string|string[]|QueryExpression): this {
+    return this.q(expression)
+  }
+
+  /**
+   * Adds an ad-hoc filter expression,
+   * meant to be used for PowerQueries
+   *
+   * @param expression
+   * @returns {this}
+   */
+  public adHocFilter(expression: string|string[]|QueryExpression): this {
+    return this.addQueryParam('$q', this.buildExpression(expression))
+  }
+
+  /**
+   * @alias adHocFilter
+   */
+  public filter(expression: string|string[]|QueryExpression): this {
+    return this.adHocFilter(expression)
+  }
+
+  /**
+   * Adds a value to the projection query string parameter.
+   *
+   * @param projection An array or string of fields to add to the projection.
+   * @returns {this}
+   */
+  public projection(projection: string|string[] = '*'): this {
+    return this.addQueryParam('projection', this.castValueToString(projection))
+  }
+
+  /**
+   * @alias projection
+   */
+  public withProjection(projection: string|string[]): this {
+    return this.projection(projection)
+  }
+
+  /**
+   * Sets the query parameter for page.
+   *
+   * @param page The page number to use in the request
+   * @returns {this}
+   */
+  public page(page: number): this {
+    return this.addQueryParam('page', page)
+  }
+
+  /**
+   * Set the size of the results.
+   *
+   * @param size The size of the results that should be returned
+   * @returns {this}
+   */
+  public pageSize(size: number): this {
+    return this.addQueryParam('pagesize', size)
+  }
+
+  /**
+   * Sets the sort query parameter value.
+   *
+   * @param columns The columns on which to sort the results
+   * @param descending Whether the order should be descending
+   * @returns {this}
+   */
+  public sort(columns: string|string[], descending: boolean = false): this {
+    return this.addQueryParam('sort', this.castValueToString(columns))
+      .addQueryParam('sortdescending', descending ? 'true' : 'false')
+  }
+
+  /**
+   * Sets the sort query parameter value.
+   *
+   * @param expression The order expression
+   * @returns {this}
+   */
+  public adHocOrder(expression: string): this {
+    return this.addQueryParam('order', expression)
+  }
+
+  /**
+   * @alias adHocOrder
+   */
+  public order(expression: string): this {
+    return this.adHocOrder(expression)
+  }
+
+  /**
+   * Sets the count query parameter value.
+   * This will include the total number of records
+   * for the query in the response
+   *
+   * @returns {this}
+   */
+  public includeCount(): this {
+    return this.addQueryParam('count', 'true')
+  }
+
+  /**
+   * Sets the data version and application name.
+   *
+   * @param version The version of the data
+   * @param applicationName The application name that is checking against the version
+   * @returns {this}
+   */
+  public dataVersion(version: number, applicationName: string): this {
+    return this.setDataItem('$dataversion', version)
+      .setDataItem('$dataversion_applicationname', applicationName)
+  }
+
+  /**
+   * @alias dataVersion
+   */
+  public withDataVersion(applicationName: string, version: number): this {
+    return this.dataVersion(version, applicationName)
+  }
+
+  /**
+   * Sets the expansions to include in the request.
+   *
+   * @param expansions The expansions to be included.
+   * @returns {this}
+   */
+  public expansions(expansions: string|string[]): this {
+    return this.addQueryParam('expansions', this.castValueToString(expansions))
+  }
+
+  /**
+   * @alias expansions
+   */
+  public withExpansions(expansions: string|string[]): this {
+    return this.expansions(expansions)
+  }
+
+  /**
+   * @alias expansions
+   */
+  public withExpansion(expansion: string): this {
+    return this.expansions(expansion)
+  }
+
+  /**
+   * Sets the extensions to include in the request.
+   *
+   * @param extensions The extensions ot include in the request.
+   * @returns {this}
+   */
+  public extensions(extensions: string|string[]): this {
+    return this.addQueryParam('extensions', this.castValueToString(extensions))
+  }
+
+  /**
+   * @alias extensions
+   */
+  public withExtensions(extensions: string|string[]): this {
+    return this.extensions(extensions)
+  }
+
+  /**
+   * @alias extensions
+   */
+  public withExtension(extension: string): this {
+    return this.extensions(extension)
+  }
+
+  /**
+   * Converts the values of the records in responses to numbers,
+   * booleans, dates and nulls using table metadata or column types.
+   *
+   * @param types The metadata of the table or the types of its columns
+   * @returns {this}
+   */
+  public decode(types: ColumnTypes|TableMetadata|TableMetadata[]): this {
+    const request = this.editable()
+    request.requestConfig.columnTypes = toColumnTypes(types)
+
+    return request
+  }
+
+  // --------------------------------------------------------------------------
+  // Sending requests
+  // --------------------------------------------------------------------------
+
+  /**
+   * Retrieves the count for the set endpoint.
+   *
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public count(): Promise<PowerSchoolResponse> {
+    const request = this.editable()
+    request.requestConfig.endpoint += `/count`
+    request.requestConfig.includeProjection = false
+
+    return request.get()
+  }
+
+  /**
+   * Walks through every page of the set endpoint, yielding each record.
+   * Pages are requested until a short page is returned or,
+   * when using the count, every record has been received.
+   *
+   * @param pageSize The number of records to request per page
+   * @param useCount Whether to retrieve the total count before paging
+   * @returns {AsyncGenerator<PowerSchoolRecord>}
+   * @throws {Error} When the page size isn't a positive integer
+   */
+  public paginate(pageSize: number = 100, useCount: boolean = false): AsyncGenerator<PowerSchoolRecord, void, undefined> {
+    assertPageSize(pageSize)
+
+    return this.paginateConfig(this.requestConfig.clone(), pageSize, useCount)
+  }
+
+  /**
+   * @alias paginate
+   */
+  public each(pageSize: number = 100, useCount: boolean = false): AsyncGenerator<PowerSchoolRecord, void, undefined> {
+    return this.paginate(pageSize, useCount)
+  }
+
+  /**
+   * Walks through every page of the set endpoint, yielding each response.
+   *
+   * @param pageSize The number of records to request per page
+   * @param useCount Whether to retrieve the total count before paging
+   * @returns {AsyncGenerator<PowerSchoolResponse>}
+   * @throws {Error} When the page size isn't a positive integer
+   */
+  public pages(pageSize: number = 100, useCount: boolean = false): AsyncGenerator<PowerSchoolResponse, void, undefined> {
+    assertPageSize(pageSize)
+
+    return this.pagesFor(this.requestConfig.clone(), pageSize, useCount)
+  }
+
+  /**
+   * Walks through every page of a request config, yielding each record.
+   *
+   * @param config The config of the request to paginate
+   * @param pageSize The number of records to request per page
+   * @param useCount Whether to retrieve the total count before paging
+   * @returns {AsyncGenerator<PowerSchoolRecord>}
+   */
+  public async *paginateConfig(config: PowerSchoolRequestConfig, pageSize: number, useCount: boolean): AsyncGenerator<PowerSchoolRecord, void, undefined> {
+    for await (const res of this.pagesFor(config, pageSize, useCount)) {
+      yield* res.toArray()
+    }
+  }
+
+  /**
+   * Walks through every page of a request config, yielding each response.
+   *
+   * @param config The config of the request to paginate
+   * @param pageSize The number of records to request per page
+   * @param useCount Whether to retrieve the total count before paging
+   * @returns {AsyncGenerator<PowerSchoolResponse>}
+   * @throws {Error} When the page size isn't a positive integer
+   */
+  public async *pagesFor(config: PowerSchoolRequestConfig, pageSize: number, useCount: boolean): AsyncGenerator<PowerSchoolResponse, void, undefined> {
+    assertPageSize(pageSize)
+
+    const total = useCount
+      ? await this.countFor(config)
+      : null
+    let received = 0
+
+    for (let page = 1; total === null || received < total; page++) {
+      const pageConfig = config.clone()
+      pageConfig.params = {
+        ...pageConfig.params,
+        page,
+        pagesize: pageSize,
+      }
+
+      const res = await this.execute(pageConfig)
+      const records = res.toArray()
+      received += records.length
+
+      this.getLogger()?.debug(`Received page ${page} of ${config.endpoint}`, {
+        page,
+        records: records.length,
+        received,
+        total,
+      })
+
+      yield res
+
+      if (records.length < pageSize) {
+        break
+      }
+    }
+  }
+
+  /**
+   * Retrieves the total number of records for a request config
+   * without altering the config itself. PowerQuery counts are
+   * sent with the same method and data as the query.
+   *
+   * @param config The config of the request being counted
+   * @returns {Promise<number>}
+   */
+  protected async countFor(config: PowerSchoolRequestConfig): Promise<number> {
+    const countConfig = config.clone()
+    countConfig.endpoint = `${config.endpoint}/count`
+    countConfig.includeProjection = false
+
+    if (!countConfig.endpoint.includes('/ws/schema/query/')) {
+      countConfig.method = 'get'
+    }
+
+    return (await this.execute(countConfig)).count
+  }
+
+  /**
+   * Sends a get request with the ability to include an endpoint.
+   *
+   * @param endpoint Optionally include the endpoint
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public get(endpoint: string = null): Promise<PowerSchoolResponse> {
+    const request = endpoint
+      ? this.endpoint(endpoint)
+      : this
+
+    return request.setMethod('get')
+      .send()
+  }
+
+  /**
+   * Sends a post request to an endpoint with some data.
+   *
+   * @param endpoint The endpoint to which to send the request. Optional.
+   * @param data Data to send with the request. Optional.
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public post(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
+    return this.setMethod('post')
+      .sendSugar(endpoint, data)
+  }
+
+  /**
+   * Sends a put request to an endpoint with some data.
+   *
+   * @param endpoint The endpoint to which to send the request. Optional.
+   * @param data Data to send with the request. Optional.
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public put(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
+    return this.setMethod('put')
+      .sendSugar(endpoint, data)
+  }
+
+  /**
+   * Sends a path request to an endpoint with some data.
+   *
+   * @param endpoint The endpoint to which to send the request. Optional.
+   * @param data Data to send with the request. Optional.
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public patch(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
+    return this.setMethod('patch')
+      .sendSugar(endpoint, data)
+  }
+
+  /**
+   * Sends a delete request with the ability to include an endpoint.
+   *
+   * @param endpoint Optionally include the endpoint
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public delete(endpoint: string = null): Promise<PowerSchoolResponse> {
+    const request = endpoint
+      ? this.endpoint(endpoint)
+      : this
+
+    return request.setMethod('delete')
+      .send()
+  }
+
+  /**
+   * Inserts many rows into the table, returning which rows
+   * succeeded and which failed along with the reasons.
+   * Each row is sent as its own request.
+   *
+   * @param rows The rows to insert
+   * @param options The chunk size and number of chunks written at once
+   * @returns {Promise<BulkResult<T>>}
+   */
+  public insertMany<T extends object>(rows: T[], options: BulkOptions = {}): Promise<BulkResult<T>> {
+    return new BulkWriter<T>(this, options).insert(rows)
+  }
+
+  /**
+   * Updates many rows of the table by their id, returning which
+   * rows succeeded and which failed along with the reasons.
+   * Each row is sent as its own request.
+   *
+   * @param rows The rows to update, each including its id
+   * @param options The chunk size and number of chunks written at once
+   * @returns {Promise<BulkResult<T>>}
+   */
+  public updateMany<T extends object>(rows: T[], options: BulkOptions = {}): Promise<BulkResult<T>> {
+    return new BulkWriter<T>(this, options).update(rows)
+  }
+
+  /**
+   * Inserts or updates rows based on the values of key fields. Existing
+   * records are looked up by the keys before rows are inserted or updated.
+   *
+   * @param rows The rows to write
+   * @param options The key fields and whether to skip rows that haven't changed
+   * @returns {Promise<UpsertResult<T>>}
+   */
+  public upsert<T extends object>(rows: T[], options: UpsertOptions): Promise<UpsertResult<T>> {
+    return new BulkWriter<T>(this, options).upsert(rows, options)
+  }
+
+  /**
+   * Streams every page of records into a writable stream as CSV or NDJSON.
+   *
+   * @param stream The stream the records are written to
+   * @param options The format, columns and progress callback
+   * @returns {Promise<ExportResult>}
+   */
+  public exportTo(stream: Writable, options: ExportOptions = {}): Promise<ExportResult> {
+    return new Exporter(this, options).to(stream)
+  }
+
+  /**
+   * Sugar for setting the endpoint and data before sending a request.
+   *
+   * @param endpoint The endpoint to which to send the request. Optional.
+   * @param data Data to send with the request. Optional.
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  protected sendSugar(endpoint: string = null, data: object = null): Promise<PowerSchoolResponse> {
+    const request = endpoint !== null
+      ? this.setEndpoint(endpoint)
+      : this
+
+    return data !== null
+      ? request.setData(data).send()
+      : request.send()
+  }
+
+  /**
+   * Sends the request to PowerSchool.
+   *
+   * @returns {Promise<PowerSchoolResponse>}
+   */
+  public send(): Promise<PowerSchoolResponse> {
+    return this.execute(this.requestConfig)
+  }
+
+  /**
+   * Builds the query parameters for Axios
+   *
+   * @param config The request config to use, defaults to the current one
+   * @returns {object}
+   */
+  public buildParams(config: PowerSchoolRequestConfig = this.requestConfig): object {
+    return {
+      ...(config.includeProjection ? { projection: '*' } : {}),
+      ...(config.method.toLowerCase() === 'get' ? { ...config.data } : {}),
+      ...config.params,
+    }
+  }
+
+  /**
+   * Converts a query expression to the string used for `q` and `$q`.
+   *
+   * @param expression The expression, a list of conditions or an expression builder
+   * @returns {string}
+   */
+  public buildExpression(expression: string|string[]|QueryExpression): string {
+    return Array.isArray(expression)
+      ? expression.join(';')
+      : String(expression)
+  }
+
+  public sanitizeEndpoint(endpoint: string = ''): string {
+    const sanitized = (endpoint ?? '').replace(/\/{2,}/g, '/')
+
+    if (sanitized.endsWith('/')) {
+      return sanitized.slice(0, -1)
+    }
+
+    return sanitized
+  }
+
+  /**
+   * Gets the logger of the client, when debugging is enabled.
+   *
+   * @returns {Logger|null}
+   */
+  public getLogger(): Logger|null {
+    return null
+  }
+
+  /**
+   * Gets the serializer that converts the data of requests.
+   *
+   * @returns {Serializer}
+   */
+  public getSerializer(): Serializer {
+    return defaultSerializer
+  }
+
+  /**
+   * Casts certain data types to a way that PowerSchool
+   * will accept without returning an error, according
+   * to the serialization options of the client.
+   *
+   * @param data The request data that needs to be converted.
+   * @returns {object}
+   */
+  public castValuesToString(data: object): object {
+    return this.getSerializer().serialize(data)
+  }
+
+  public castValueToString(value: any): string {
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0'
+    }
+
+    if (value === null || typeof value === 'undefined') {
+      return ''
+    }
+
+    if (Array.isArray(value)) {
+      return value.join(',')
+    }
+
+    if (value instanceof Date) {
+      return this.getSerializer().formatDate(value)
+    }
+
+    return String(value)
+  }
+}
+
+const defaultSerializer = new Serializer()
+
+/**
+ * Ensures records can be paged through with a page size.
+ *
+ * @param pageSize The number of records per page
+ * @throws {Error} When the page size isn't a positive integer
+ */
+const assertPageSize = (pageSize: number): void => {
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`The page size must be a positive integer, received ${pageSize}`)
+  }
+}
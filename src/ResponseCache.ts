@@ -0,0 +1,150 @@
+import { CacheStore } from './CacheStore.js'
+import { MemoryCacheStore } from './MemoryCacheStore.js'
+import { Middleware, MiddlewareContext, MiddlewareResponse } from './Middleware.js'
+import { stableStringify } from './stableStringify.js'
+
+export interface CacheOptions {
+  /**
+   * How many milliseconds responses are cached. Defaults to 60000.
+   */
+  ttl?: number
+
+  /**
+   * How many milliseconds responses of endpoints are cached, keyed by
+   * the start of the endpoint such as `/ws/v1/school`. The longest
+   * matching endpoint is used, and a TTL of 0 skips caching.
+   */
+  ttls?: Record<string, number>
+
+  /**
+   * Where responses are kept. Defaults to an in-memory store.
+   */
+  store?: CacheStore
+
+  /**
+   * The number of responses the default store keeps. Defaults to 500.
+   */
+  maxEntries?: number
+}
+
+/**
+ * Caches the responses of GET requests by their endpoint and params.
+ * Writes to a table through the same client remove the table's responses.
+ */
+export class ResponseCache implements Middleware {
+  readonly ttl: number
+  readonly ttls: Record<string, number>
+  readonly store: CacheStore
+  protected namespace: string
+  protected hits: WeakSet<MiddlewareContext> = new WeakSet()
+
+  /**
+   * @param options How long responses are cached and where
+   * @param namespace Keeps the responses of different servers apart in a shared store
+   */
+  constructor(options: CacheOptions = {}, namespace: string = '') {
+    this.ttl = options.ttl ?? 60000
+    this.ttls = options.ttls ?? {}
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries)
+    this.namespace = namespace
+  }
+
+  public beforeRequest = async (context: MiddlewareContext): Promise<MiddlewareResponse|void> => {
+    if (!this.cacheable(context)) {
+      return
+    }
+
+    const cached = await this.store.get(this.keyOf(context))
+
+    if (cached) {
+      this.hits.add(context)
+
+      return { status: 200, data: JSON.parse(cached.body) }
+    }
+  }
+
+  public afterResponse = async (context: MiddlewareContext, response: MiddlewareResponse): Promise<void> => {
+    if (!this.cacheable(context)) {
+      await this.invalidateWrite(context)
+      return
+    }
+
+    if (!this.hits.has(context)) {
+      await this.store.set(this.keyOf(context), {
+        body: JSON.stringify(response.data),
+        table: tableOf(context.axiosConfig.url),
+        expiresAt: Date.now() + this.ttlOf(context.axiosConfig.url),
+      })
+    }
+  }
+
+  public onError = async (context: MiddlewareContext): Promise<void> => {
+    // A failed write may still have changed the table
+    await this.invalidateWrite(context)
+  }
+
+  /**
+   * Removes every cached response of a table.
+   *
+   * @param table The name of the table
+   * @returns {Promise<void>}
+   */
+  public invalidate(table: string): Promise<void> {
+    return this.store.deleteTable(table.toLowerCase())
+  }
+
+  /**
+   * Removes every cached response.
+   *
+   * @returns {Promise<void>}
+   */
+  public clear(): Promise<void> {
+    return this.store.clear()
+  }
+
+  /**
+   * Gets the TTL of an endpoint from the longest matching endpoint.
+   *
+   * @param endpoint The endpoint of the request
+   * @returns {number}
+   */
+  public ttlOf(endpoint: string): number {
+    const match = Object.keys(this.ttls)
+      .filter(prefix => endpoint === prefix || endpoint.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`))
+      .sort((a, b) => b.length - a.length)[0]
+
+    return match === undefined ? this.ttl : this.ttls[match]
+  }
+
+  protected cacheable(context: MiddlewareContext): boolean {
+    return context.type === 'request'
+      && (context.axiosConfig.method ?? 'get').toLowerCase() === 'get'
+      && this.ttlOf(context.axiosConfig.url) > 0
+  }
+
+  protected async invalidateWrite(context: MiddlewareContext): Promise<void> {
+    const method = (context.axiosConfig.method ?? 'get').toLowerCase()
+    const table = tableOf(context.axiosConfig.url)
+
+    if (context.type === 'request' && ['post', 'put', 'patch', 'delete'].includes(method) && table) {
+      await this.store.deleteTable(table)
+    }
+  }
+
+  protected keyOf(context: MiddlewareContext): string {
+    return `${this.namespace} GET ${context.axiosConfig.url} ${stableStringify(context.axiosConfig.params ?? {})}`
+  }
+}
+
+/**
+ * Gets the table of a table endpoint, such as `students`
+ * for `/ws/schema/table/students/1`.
+ *
+ * @param endpoint The endpoint of the request
+ * @returns {string|null}
+ */
+const tableOf = (endpoint: string = ''): string|null => {
+  const match = endpoint.match(/^\/ws\/schema\/table\/([^/]+)/)
+
+  return match ? match[1].toLowerCase() : null
+}
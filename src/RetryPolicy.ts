@@ -0,0 +1,146 @@
+import { Method } from 'axios'
+import { PowerSchoolError } from './PowerSchoolError.js'
+
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts, including the first. Defaults to 1 (no retries).
+   */
+  maxAttempts?: number
+
+  /**
+   * The response statuses that should be retried.
+   */
+  statuses?: number[]
+
+  /**
+   * Whether requests failing without a response (timeouts, dropped connections) are retried.
+   */
+  retryNetworkErrors?: boolean
+
+  /**
+   * Whether POST, PUT, PATCH and DELETE requests may be retried.
+   * PowerQueries are always considered reads.
+   */
+  retryWrites?: boolean
+
+  /**
+   * The delay before the first retry in milliseconds, doubled for each retry after.
+   */
+  baseDelay?: number
+
+  /**
+   * The longest delay between attempts in milliseconds.
+   */
+  maxDelay?: number
+
+  /**
+   * Whether to randomize the delay so clients don't retry in lockstep.
+   */
+  jitter?: boolean
+}
+
+export class RetryPolicy {
+  maxAttempts: number
+  statuses: number[]
+  retryNetworkErrors: boolean
+  retryWrites: boolean
+  baseDelay: number
+  maxDelay: number
+  jitter: boolean
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 1
+    this.statuses = options.statuses ?? [429, 500, 502, 503, 504]
+    this.retryNetworkErrors = options.retryNetworkErrors ?? true
+    this.retryWrites = options.retryWrites ?? false
+    this.baseDelay = options.baseDelay ?? 500
+    this.maxDelay = options.maxDelay ?? 30000
+    this.jitter = options.jitter ?? true
+  }
+
+  /**
+   * Determines whether a failed attempt should be retried.
+   *
+   * @param err The error thrown by the attempt
+   * @param method The HTTP method of the request
+   * @param endpoint The endpoint of the request
+   * @param attempt The number of the attempt that failed, starting at 1
+   * @returns {boolean}
+   */
+  public shouldRetry(err: unknown, method: Method, endpoint: string, attempt: number): boolean {
+    if (attempt >= this.maxAttempts || !(err instanceof PowerSchoolError)) {
+      return false
+    }
+
+    if (this.isWrite(method, endpoint) && !this.retryWrites) {
+      return false
+    }
+
+    return err.status === null
+      ? this.retryNetworkErrors
+      : this.statuses.includes(err.status)
+  }
+
+  /**
+   * Gets the number of milliseconds to wait before the next attempt.
+   * A Retry-After header from PowerSchool takes precedence.
+   *
+   * @param err The error thrown by the attempt
+   * @param attempt The number of the attempt that failed, starting at 1
+   * @returns {number}
+   */
+  public delay(err: unknown, attempt: number): number {
+    const retryAfter = err instanceof PowerSchoolError
+      ? this.parseRetryAfter(err.headers['retry-after'])
+      : null
+
+    if (retryAfter !== null) {
+      return retryAfter
+    }
+
+    const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1))
+
+    return this.jitter
+      ? Math.round(Math.random() * delay)
+      : delay
+  }
+
+  /**
+   * Determines whether a request modifies data.
+   *
+   * @param method The HTTP method of the request
+   * @param endpoint The endpoint of the request
+   * @returns {boolean}
+   */
+  public isWrite(method: Method, endpoint: string): boolean {
+    const verb = method.toLowerCase()
+
+    if (verb === 'post' && endpoint?.includes('/ws/schema/query/')) {
+      return false
+    }
+
+    return ['post', 'put', 'patch', 'delete'].includes(verb)
+  }
+
+  /**
+   * Parses a Retry-After header given in seconds or as an HTTP date.
+   *
+   * @param value The header value
+   * @returns {number|null}
+   */
+  protected parseRetryAfter(value: string): number|null {
+    if (!value) {
+      return null
+    }
+
+    const seconds = Number(value)
+
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000)
+    }
+
+    const date = Date.parse(value)
+
+    return isNaN(date) ? null : Math.max(0, date - Date.now())
+  }
+}
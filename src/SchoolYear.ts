@@ -0,0 +1,138 @@
+import type { Term } from './resources/models.js'
+
+export interface SchoolYearOptions {
+  /**
+   * The month school years start in, from 1 to 12. Defaults to 7 (July),
+   * matching the default start of PowerSchool's years.
+   */
+  startMonth?: number
+}
+
+/**
+ * A school year, such as 2024-2025, along with the ids PowerSchool
+ * derives from it. The yearid is the number of years since 1990, so
+ * 2024-2025 is yearid 34. Full-year terms use the yearid times 100
+ * (3400) and the terms within the year count up from there (3401, 3402).
+ */
+export class SchoolYear {
+  readonly startYear: number
+
+  constructor(startYear: number) {
+    if (!Number.isInteger(startYear)) {
+      throw new Error(`"${startYear}" is not a valid school year`)
+    }
+
+    this.startYear = startYear
+  }
+
+  /**
+   * Gets the school year of a yearid, such as 34 for 2024-2025.
+   *
+   * @param yearId The yearid
+   * @returns {SchoolYear}
+   */
+  public static fromYearId(yearId: number): SchoolYear {
+    return new SchoolYear(Number(yearId) + 1990)
+  }
+
+  /**
+   * Gets the school year of a termid, such as 3401 for 2024-2025.
+   *
+   * @param termId The termid
+   * @returns {SchoolYear}
+   */
+  public static fromTermId(termId: number): SchoolYear {
+    return SchoolYear.fromYearId(yearIdOf(termId))
+  }
+
+  /**
+   * Gets the school year a date falls in.
+   *
+   * @param date The date
+   * @param options The month school years start in
+   * @returns {SchoolYear}
+   */
+  public static forDate(date: Date, options: SchoolYearOptions = {}): SchoolYear {
+    const startMonth = options.startMonth ?? 7
+
+    return new SchoolYear(date.getMonth() + 1 >= startMonth ? date.getFullYear() : date.getFullYear() - 1)
+  }
+
+  /**
+   * Gets the current school year.
+   *
+   * @param options The month school years start in
+   * @returns {SchoolYear}
+   */
+  public static current(options: SchoolYearOptions = {}): SchoolYear {
+    return SchoolYear.forDate(new Date(), options)
+  }
+
+  public get endYear(): number {
+    return this.startYear + 1
+  }
+
+  public get yearId(): number {
+    return this.startYear - 1990
+  }
+
+  /**
+   * The termid of the full-year term.
+   *
+   * @returns {number}
+   */
+  public get termId(): number {
+    return this.yearId * 100
+  }
+
+  /**
+   * Determines whether a termid belongs to the year.
+   *
+   * @param termId The termid
+   * @returns {boolean}
+   */
+  public hasTerm(termId: number): boolean {
+    return yearIdOf(termId) === this.yearId
+  }
+
+  public previous(): SchoolYear {
+    return new SchoolYear(this.startYear - 1)
+  }
+
+  public next(): SchoolYear {
+    return new SchoolYear(this.startYear + 1)
+  }
+
+  public toString(): string {
+    return `${this.startYear}-${this.endYear}`
+  }
+}
+
+/**
+ * Gets the yearid of a termid. Negative termids, which PowerSchool
+ * uses for dropped enrollments, belong to the same year.
+ *
+ * @param termId The termid
+ * @returns {number}
+ */
+export const yearIdOf = (termId: number): number => {
+  return Math.trunc(Math.abs(Number(termId)) / 100)
+}
+
+/**
+ * Finds the most specific term that contains a date, preferring
+ * a semester or quarter over the full-year term.
+ *
+ * @param terms The terms of a school
+ * @param date The date
+ * @returns {Term|null}
+ */
+export const findCurrentTerm = <T extends Term>(terms: T[], date: Date = new Date()): T|null => {
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  const length = (term: Term): number => new Date(term.end_date).getTime() - new Date(term.start_date).getTime()
+
+  return terms
+    .filter(term => term.start_date?.slice(0, 10) <= day && day <= term.end_date?.slice(0, 10))
+    .sort((a, b) => length(a) - length(b))[0] ?? null
+}
@@ -0,0 +1,159 @@
+import { dateKindOf, encodeDate, zoneFormatter } from './decode.js'
+
+export interface SerializationOptions {
+  /**
+   * How dates are written. `date` writes `yyyy-mm-dd`, `timestamp` writes
+   * `yyyy-mm-dd hh:mm:ss` and `auto` writes decoded dates the way their
+   * column stores them, other dates at midnight as dates and the rest
+   * as timestamps. Defaults to `auto`.
+   */
+  dates?: 'auto'|'date'|'timestamp'
+
+  /**
+   * The time zone of the district, such as `America/Chicago`, that
+   * dates are written and decoded in. Defaults to the local time zone.
+   */
+  timeZone?: string
+
+  /**
+   * How null values are written. `empty` writes an empty string, which
+   * clears the field, `omit` leaves the field out so it isn't changed
+   * and `null` sends null. Defaults to `empty`.
+   */
+  nulls?: 'empty'|'omit'|'null'
+
+  /**
+   * How arrays are written. `join` writes a comma-separated list and
+   * `each` writes an array of strings. Defaults to `join`.
+   */
+  arrays?: 'join'|'each'
+}
+
+/**
+ * Converts the data of requests to the strings PowerSchool expects.
+ * Nested objects, such as the `tables` of a table record, and
+ * records inside arrays are converted field by field.
+ */
+export class Serializer {
+  protected options: SerializationOptions
+  protected formatter: Intl.DateTimeFormat|null
+
+  constructor(options: SerializationOptions = {}) {
+    this.options = {
+      dates: 'auto',
+      nulls: 'empty',
+      arrays: 'join',
+      ...options,
+    }
+    this.formatter = this.options.timeZone ? zoneFormatter(this.options.timeZone) : null
+  }
+
+  /**
+   * Gets the time zone dates are written and decoded in.
+   *
+   * @returns {string|null} Null for the local time zone
+   */
+  public getTimeZone(): string|null {
+    return this.options.timeZone ?? null
+  }
+
+  /**
+   * Converts every value of an object, leaving out undefined
+   * values and null values when they're omitted.
+   *
+   * @param data The data to convert
+   * @returns {object}
+   */
+  public serialize(data: object): object {
+    const output = {}
+
+    for (const key in data) {
+      const value = data[key]
+
+      if (value === undefined || (value === null && this.options.nulls === 'omit')) {
+        continue
+      }
+
+      output[key] = isPlainObject(value)
+        ? this.serialize(value)
+        : this.serializeValue(value)
+    }
+
+    return output
+  }
+
+  /**
+   * Converts a single value. Arrays of records, such as the students
+   * of a `/ws/v1/student` insert, stay arrays of converted records.
+   *
+   * @param value The value to convert
+   * @returns {string|(string|object)[]|null}
+   */
+  public serializeValue(value: unknown): string|(string|object)[]|null {
+    if (Array.isArray(value) && value.some(isPlainObject)) {
+      return value.map(item => isPlainObject(item) ? this.serialize(item) : this.serializeScalar(item) ?? '')
+    }
+
+    if (Array.isArray(value)) {
+      const values = value.map(item => this.serializeScalar(item) ?? '')
+
+      return this.options.arrays === 'each' ? values : values.join(',')
+    }
+
+    return this.serializeScalar(value)
+  }
+
+  /**
+   * Formats a date according to the date format and time zone.
+   * Decoded dates keep the shape of the column they were read from.
+   *
+   * @param date The date to format
+   * @returns {string}
+   */
+  public formatDate(date: Date): string {
+    const dates = this.options.dates === 'auto' ? dateKindOf(date) ?? 'auto' : this.options.dates
+
+    if (!this.formatter) {
+      const formatted = encodeDate(date)
+
+      return dates === 'auto'
+        ? formatted
+        : dates === 'date'
+          ? formatted.slice(0, 10)
+          : formatted.length === 10 ? `${formatted} 00:00:00` : formatted
+    }
+
+    const parts = Object.fromEntries(this.formatter.formatToParts(date).map(part => [part.type, part.value]))
+    const day = `${parts.year}-${parts.month}-${parts.day}`
+    const time = `${parts.hour}:${parts.minute}:${parts.second}`
+    const fraction = date.getMilliseconds() === 0 ? '' : `.${String(date.getMilliseconds()).padStart(3, '0')}`
+
+    if (dates === 'date' || (dates === 'auto' && time === '00:00:00' && !fraction)) {
+      return day
+    }
+
+    return `${day} ${time}${fraction}`
+  }
+
+  protected serializeScalar(value: unknown): string|null {
+    if (value === null || value === undefined) {
+      return this.options.nulls === 'null' ? null : ''
+    }
+
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0'
+    }
+
+    if (value instanceof Date) {
+      return this.formatDate(value)
+    }
+
+    return typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value)
+  }
+}
+
+const isPlainObject = (value: unknown): value is object => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
@@ -0,0 +1,66 @@
+export interface ColumnMetadata {
+  name: string
+
+  /**
+   * The database type of the column, such as `VARCHAR2` or `NUMBER`.
+   */
+  type: string
+  length?: number
+  nullable: boolean
+  description?: string
+}
+
+export interface TableMetadata {
+  name: string
+  columns: ColumnMetadata[]
+
+  /**
+   * The names of the one-to-one extension tables of the table.
+   */
+  extensions: string[]
+}
+
+/**
+ * Reads the metadata PowerSchool reports for a table, which may be
+ * wrapped in a `metadata` or `table` key depending on the version.
+ *
+ * @param data The response of the metadata endpoint
+ * @param table The name of the table that was requested
+ * @returns {TableMetadata}
+ */
+export const parseTableMetadata = (data: object, table: string): TableMetadata => {
+  const source = data?.['metadata'] ?? data?.['table'] ?? data ?? {}
+  const columns = [].concat(source['columns'] ?? source['column'] ?? source['fields'] ?? [])
+  const extensions = [].concat(source['extensions'] ?? source['extension_tables'] ?? source['extension'] ?? [])
+
+  return {
+    name: String(typeof source['name'] === 'string' ? source['name'] : table).toLowerCase(),
+    columns: columns
+      .filter(column => column && column.name)
+      .map(parseColumn),
+    extensions: extensions
+      .map(extension => typeof extension === 'string' ? extension : extension?.name)
+      .filter(Boolean)
+      .map(name => String(name).toLowerCase()),
+  }
+}
+
+const parseColumn = (column: object): ColumnMetadata => {
+  const flag = (value: unknown): boolean|undefined => {
+    if (value === undefined || value === null || value === '') {
+      return undefined
+    }
+
+    return value === true || ['1', 'true', 'y', 'yes'].includes(String(value).toLowerCase())
+  }
+  const required = flag(column['required'])
+  const length = Number(column['length'] ?? column['size'])
+
+  return {
+    name: String(column['name']).toLowerCase(),
+    type: String(column['type'] ?? column['data_type'] ?? 'VARCHAR2').toUpperCase(),
+    ...(isNaN(length) || length <= 0 ? {} : { length }),
+    nullable: flag(column['nullable'] ?? column['null_allowed']) ?? (required === undefined ? true : !required),
+    ...(column['description'] ? { description: String(column['description']) } : {}),
+  }
+}
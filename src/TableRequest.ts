@@ -0,0 +1,44 @@
+import { PowerSchoolRequest } from './PowerSchoolRequest.js'
+import { PowerSchoolRecord } from './PowerSchoolResponse.js'
+import { QueryExpression } from './QueryExpression.js'
+
+/**
+ * The field names of a table's record type.
+ */
+export type TableField<T> = Extract<keyof T, string>
+
+/**
+ * A request for a table whose records have the type `T`, such as an
+ * interface created by `generateTableTypes()`. The fields given to
+ * `projection()`, `sort()` and expressions passed to `q()` are checked
+ * against the record type. Plain string expressions aren't checked.
+ */
+export class TableRequest<T extends object = PowerSchoolRecord> extends PowerSchoolRequest {
+  public projection(projection: '*'|TableField<T>|TableField<T>[] = '*'): this {
+    return super.projection(projection)
+  }
+
+  public withProjection(projection: '*'|TableField<T>|TableField<T>[]): this {
+    return this.projection(projection)
+  }
+
+  public q(expression: string|string[]|QueryExpression<TableField<T>>): this {
+    return super.q(expression)
+  }
+
+  public queryExpression(expression: string|string[]|QueryExpression<TableField<T>>): this {
+    return this.q(expression)
+  }
+
+  public sort(columns: TableField<T>|TableField<T>[], descending: boolean = false): this {
+    return super.sort(columns, descending)
+  }
+
+  public paginate(pageSize: number = 100, useCount: boolean = false): AsyncGenerator<T, void, undefined> {
+    return super.paginate(pageSize, useCount) as AsyncGenerator<T, void, undefined>
+  }
+
+  public each(pageSize: number = 100, useCount: boolean = false): AsyncGenerator<T, void, undefined> {
+    return this.paginate(pageSize, useCount)
+  }
+}
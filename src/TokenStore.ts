@@ -0,0 +1,35 @@
+export interface StoredToken {
+  accessToken: string
+
+  /**
+   * When the token expires as a timestamp in milliseconds,
+   * or null when the expiration is unknown.
+   */
+  expiresAt: number|null
+}
+
+/**
+ * Persists access tokens so they can be reused
+ * across instances, processes and restarts.
+ */
+export interface TokenStore {
+  /**
+   * Gets the stored token for a key. Expired tokens should not be returned.
+   */
+  get(key: string): Promise<StoredToken|null>
+
+  set(key: string, token: StoredToken): Promise<void>
+
+  clear(key: string): Promise<void>
+}
+
+/**
+ * Determines whether a stored token has expired.
+ *
+ * @param token The stored token
+ * @param buffer The number of milliseconds before the expiration to consider it expired
+ * @returns {boolean}
+ */
+export const storedTokenExpired = (token: StoredToken, buffer: number = 0): boolean => {
+  return token.expiresAt !== null && token.expiresAt - buffer <= Date.now()
+}
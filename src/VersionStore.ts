@@ -0,0 +1,9 @@
+/**
+ * Persists the data version of a data subscription so
+ * a change feed can resume where it left off.
+ */
+export interface VersionStore {
+  get(applicationName: string): Promise<number|null>
+
+  set(applicationName: string, version: number): Promise<void>
+}
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { Cli } from './Cli.js'
+
+process.exitCode = await new Cli().run(process.argv.slice(2))
@@ -0,0 +1,69 @@
+/**
+ * Flattens nested objects into dotted keys, such as `name.last_name`.
+ * Arrays are kept as values.
+ *
+ * @param record The record to flatten
+ * @param prefix The key of the parent object
+ * @returns {Record<string, unknown>}
+ */
+export const flattenRecord = (record: object, prefix: string = ''): Record<string, unknown> => {
+  const output: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(record ?? {})) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      Object.assign(output, flattenRecord(value, `${prefix}${key}.`))
+      continue
+    }
+
+    output[`${prefix}${key}`] = value
+  }
+
+  return output
+}
+
+/**
+ * Collects the columns of every record in the order they first appear.
+ *
+ * @param records The flattened records
+ * @returns {string[]}
+ */
+export const columnsOf = (records: Record<string, unknown>[]): string[] => {
+  const columns = new Set<string>()
+
+  for (const record of records) {
+    Object.keys(record).forEach(key => columns.add(key))
+  }
+
+  return [...columns]
+}
+
+/**
+ * Converts a value to a CSV field, quoting it when it
+ * contains a delimiter, quote or line break.
+ *
+ * @param value The value of the field
+ * @returns {string}
+ */
+export const csvField = (value: unknown): string => {
+  const text = value === null || value === undefined
+    ? ''
+    : value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value)
+
+  return /[",\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text
+}
+
+/**
+ * Converts values to a line of CSV.
+ *
+ * @param values The values of the row
+ * @returns {string}
+ */
+export const csvRow = (values: unknown[]): string => {
+  return `${values.map(csvField).join(',')}\r\n`
+}
@@ -0,0 +1,262 @@
+import type { PowerSchoolRecord } from './PowerSchoolResponse.js'
+import type { TableMetadata } from './TableMetadata.js'
+import { formatDate } from './QueryExpression.js'
+
+export type ColumnType = 'string'|'number'|'boolean'|'date'|'timestamp'
+
+/**
+ * The types of columns keyed by the column name.
+ */
+export type ColumnTypes = Record<string, ColumnType>
+
+/**
+ * Whether decoded dates came from date or timestamp columns, so
+ * they're written back the way they were read.
+ */
+const dateKinds: WeakMap<Date, 'date'|'timestamp'> = new WeakMap()
+
+/**
+ * Formatters of the wall-clock time in a time zone, keyed by the zone.
+ */
+const zoneFormatters: Map<string, Intl.DateTimeFormat> = new Map()
+
+/**
+ * Maps the database types of columns to the types they're decoded to.
+ * Flags stored as `NUMBER(1)` can't be told apart from numbers, so
+ * give them as `boolean` in a column type map instead.
+ *
+ * @param metadata The metadata of a table and its extension tables
+ * @returns {ColumnTypes}
+ */
+export const columnTypesFromMetadata = (metadata: TableMetadata|TableMetadata[]): ColumnTypes => {
+  const types: ColumnTypes = {}
+
+  for (const table of [].concat(metadata) as TableMetadata[]) {
+    for (const column of table.columns) {
+      types[column.name] = columnTypeOf(column.type)
+    }
+  }
+
+  return types
+}
+
+/**
+ * Converts table metadata to column types, passing column types through.
+ *
+ * @param types The metadata of a table or the types of its columns
+ * @returns {ColumnTypes}
+ */
+export const toColumnTypes = (types: ColumnTypes|TableMetadata|TableMetadata[]): ColumnTypes => {
+  return Array.isArray(types) || Array.isArray(types?.['columns'])
+    ? columnTypesFromMetadata(types as TableMetadata|TableMetadata[])
+    : types as ColumnTypes
+}
+
+/**
+ * Maps a database type, such as `NUMBER` or `VARCHAR2`, to a column type.
+ *
+ * @param type The database type
+ * @returns {ColumnType}
+ */
+export const columnTypeOf = (type: string): ColumnType => {
+  const name = String(type).toUpperCase()
+
+  if (/^(NUMBER|NUMERIC|INT|INTEGER|LONG|DOUBLE|FLOAT|DECIMAL|SMALLINT|BIGINT)/.test(name)) {
+    return 'number'
+  }
+
+  if (/^(BOOL|BOOLEAN|BIT)/.test(name)) {
+    return 'boolean'
+  }
+
+  if (/^TIMESTAMP|^DATETIME/.test(name)) {
+    return 'timestamp'
+  }
+
+  return name.startsWith('DATE') ? 'date' : 'string'
+}
+
+/**
+ * Converts the string values of a record to the types of its columns.
+ * Columns without a type are left as they are.
+ *
+ * @param record The record to decode
+ * @param types The types of the columns
+ * @param timeZone The time zone of the district, defaulting to the local time zone
+ * @returns {PowerSchoolRecord}
+ */
+export const decodeRecord = <T extends object = PowerSchoolRecord>(record: object, types: ColumnTypes, timeZone: string = null): T => {
+  const output = { ...record }
+
+  for (const [key, value] of Object.entries(record)) {
+    const type = types[key] ?? types[key.toLowerCase()]
+
+    if (type) {
+      output[key] = decodeValue(value, type, timeZone)
+    }
+  }
+
+  return output as T
+}
+
+/**
+ * Converts a value returned by PowerSchool to a type. Empty values of
+ * columns that aren't strings become null. Booleans are decoded from
+ * `1` and `0` only. Values that can't be converted are left as they are.
+ *
+ * @param value The value to decode
+ * @param type The type of the column
+ * @param timeZone The time zone of the district, defaulting to the local time zone
+ * @returns {unknown}
+ */
+export const decodeValue = (value: unknown, type: ColumnType, timeZone: string = null): unknown => {
+  if (type === 'string' || typeof value !== 'string') {
+    return value
+  }
+
+  const text = value.trim()
+
+  if (text === '') {
+    return null
+  }
+
+  switch (type) {
+    case 'number': {
+      const number = Number(text)
+
+      return isNaN(number) ? value : number
+    }
+    case 'boolean':
+      // Only 1 and 0 are written back as they were, so flags such as Y and N stay strings
+      return text === '1' ? true : text === '0' ? false : value
+    default: {
+      const date = decodeDate(text, timeZone)
+
+      if (date) {
+        dateKinds.set(date, type)
+      }
+
+      return date === undefined ? value : date
+    }
+  }
+}
+
+/**
+ * Gets whether a date was decoded from a date or a timestamp column.
+ *
+ * @param date The decoded date
+ * @returns {string|undefined} Undefined when the date wasn't decoded
+ */
+export const dateKindOf = (date: Date): 'date'|'timestamp'|undefined => {
+  return dateKinds.get(date)
+}
+
+/**
+ * Gets a formatter of the wall-clock time in a time zone.
+ *
+ * @param timeZone The time zone, such as `America/Chicago`
+ * @returns {Intl.DateTimeFormat}
+ */
+export const zoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!zoneFormatters.has(timeZone)) {
+    zoneFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }))
+  }
+
+  return zoneFormatters.get(timeZone)
+}
+
+/**
+ * Parses the dates and timestamps PowerSchool returns. Dates without a
+ * zone are in the district's time zone, matching how dates are written.
+ * PowerSchool's empty dates, such as `0/0/0`, are null.
+ *
+ * @param text The date to parse
+ * @param timeZone The time zone of the district, or null for the local time zone
+ * @returns {Date|null|undefined} Undefined when the text isn't a date
+ */
+const decodeDate = (text: string, timeZone: string|null): Date|null|undefined => {
+  if (/^0+[-/]0+[-/]0+/.test(text)) {
+    return null
+  }
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/)
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+
+  if (iso) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0', fraction = '0'] = iso
+
+    return zonedDate([year, month, day, hours, minutes, seconds, fraction.slice(0, 3).padEnd(3, '0')].map(Number), timeZone)
+  }
+
+  if (us) {
+    return zonedDate([us[3], us[1], us[2], 0, 0, 0, 0].map(Number), timeZone)
+  }
+
+  const date = new Date(text)
+
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Creates the date of a wall-clock time in a time zone.
+ *
+ * @param parts The year, month, day, hours, minutes, seconds and milliseconds
+ * @param timeZone The time zone, or null for the local time zone
+ * @returns {Date}
+ */
+const zonedDate = (parts: number[], timeZone: string|null): Date => {
+  const [year, month, day, hours, minutes, seconds, milliseconds] = parts
+
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hours, minutes, seconds, milliseconds)
+  }
+
+  const wall = Date.UTC(year, month - 1, day, hours, minutes, seconds, milliseconds)
+  // The offset is checked again at the result in case a daylight saving change lies between
+  const guess = wall - zoneOffset(wall, timeZone)
+
+  return new Date(wall - zoneOffset(guess, timeZone))
+}
+
+/**
+ * Gets how many milliseconds a time zone is ahead of UTC at a time.
+ *
+ * @param time The time in milliseconds
+ * @param timeZone The time zone
+ * @returns {number}
+ */
+const zoneOffset = (time: number, timeZone: string): number => {
+  const seconds = Math.floor(time / 1000) * 1000
+  const parts = Object.fromEntries(zoneFormatter(timeZone).formatToParts(new Date(seconds)).map(part => [part.type, part.value]))
+
+  return Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second)) - seconds
+}
+
+/**
+ * Formats a date the way it's decoded: dates at midnight as
+ * `yyyy-mm-dd`, others as `yyyy-mm-dd hh:mm:ss`, both local.
+ * Milliseconds are kept as `.sss` when there are any.
+ *
+ * @param date The date to format
+ * @returns {string}
+ */
+export const encodeDate = (date: Date): string => {
+  const pad = (n: number): string => String(n).padStart(2, '0')
+
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0) {
+    return formatDate(date)
+  }
+
+  const fraction = date.getMilliseconds() === 0 ? '' : `.${String(date.getMilliseconds()).padStart(3, '0')}`
+
+  return `${formatDate(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}${fraction}`
+}
@@ -0,0 +1,94 @@
+import { ColumnMetadata, TableMetadata } from './TableMetadata.js'
+import { columnTypeOf } from './decode.js'
+
+export interface GenerateTableTypesOptions {
+  /**
+   * Whether to type columns as they are after `decode()`,
+   * rather than as the strings PowerSchool returns.
+   */
+  decoded?: boolean
+}
+
+/**
+ * Converts a table name to the name of its interface, such as
+ * `u_student_extension` to `UStudentExtension`.
+ *
+ * @param table The name of the table
+ * @returns {string}
+ */
+export const tableTypeName = (table: string): string => {
+  const name = table
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1).toLowerCase())
+    .join('')
+
+  return /^[0-9]/.test(name) ? `T${name}` : name
+}
+
+/**
+ * Creates TypeScript interfaces for the records of tables. Table records
+ * are returned as strings, so columns are typed as strings unless the
+ * decoded types are requested, and documented with their database type.
+ * Nullable columns are optional and tables extend the extension tables
+ * included in the metadata.
+ *
+ * @param tables The metadata of the tables
+ * @param options Whether to generate the decoded types
+ * @returns {string}
+ */
+export const generateTableTypes = (tables: TableMetadata[], options: GenerateTableTypesOptions = {}): string => {
+  const names = new Set(tables.map(table => table.name))
+  const lines = ['// Generated by node-powerschool from the table metadata of PowerSchool.', '']
+
+  for (const table of tables) {
+    const extensions = table.extensions.filter(extension => names.has(extension))
+    const heritage = extensions.length > 0
+      ? ` extends ${extensions.map(extension => `Partial<${tableTypeName(extension)}>`).join(', ')}`
+      : ''
+
+    lines.push(
+      '/**',
+      ` * A record of the ${table.name} table.`,
+      ' */',
+      `export interface ${tableTypeName(table.name)}${heritage} {`,
+    )
+
+    for (const column of table.columns) {
+      lines.push(
+        `  /** ${columnComment(column)} */`,
+        `  ${propertyName(column.name)}${column.nullable ? '?' : ''}: ${options.decoded ? decodedType(column) : 'string'}`,
+      )
+    }
+
+    lines.push('}', '')
+  }
+
+  lines.push('export interface PowerSchoolTables {')
+
+  for (const table of tables) {
+    lines.push(`  ${propertyName(table.name)}: ${tableTypeName(table.name)}`)
+  }
+
+  lines.push('}', '')
+
+  return lines.join('\n')
+}
+
+const columnComment = (column: ColumnMetadata): string => {
+  const type = column.length ? `${column.type}(${column.length})` : column.type
+  const description = column.description ? `${column.description.replace(/\*\//g, '* /').trim()} ` : ''
+
+  return `${description}${type}${column.nullable ? '' : ', not null'}`
+}
+
+const decodedType = (column: ColumnMetadata): string => {
+  const types = { number: 'number', boolean: 'boolean', date: 'Date', timestamp: 'Date', string: 'string' }
+  const type = types[columnTypeOf(column.type)]
+
+  return column.nullable && type !== 'string' ? `${type}|null` : type
+}
+
+const propertyName = (name: string): string => {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`
+}
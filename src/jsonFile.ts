@@ -0,0 +1,72 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname, resolve } from 'path'
+
+let writes = 0
+
+const updates: Map<string, Promise<void>> = new Map()
+
+/**
+ * Reads an object from a JSON file, treating
+ * a missing or unreadable file as empty.
+ *
+ * @param path The path of the file
+ * @returns {Promise<Record<string, T>>}
+ */
+export const readJsonFile = async <T>(path: string): Promise<Record<string, T>> => {
+  try {
+    const data = JSON.parse(await readFile(path, 'utf8'))
+
+    return data && typeof data === 'object' ? data : {}
+  } catch (err) {
+    return {}
+  }
+}
+
+/**
+ * Writes an object to a temporary file first and then moves it
+ * into place so other processes never read a partial file.
+ *
+ * @param path The path of the file
+ * @param data The data to write
+ * @param space The indentation of the JSON, when it should be readable
+ */
+export const writeJsonFile = async (path: string, data: object, space?: number): Promise<void> => {
+  // Every write gets its own file so concurrent writes don't move each other's
+  const tmp = `${path}.${process.pid}.${++writes}.tmp`
+
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(tmp, JSON.stringify(data, null, space), { mode: 0o600 })
+  await rename(tmp, path)
+}
+
+/**
+ * Reads an object from a JSON file, changes it and writes it back.
+ * Updates of the same file within the process run one at a time,
+ * so concurrent updates don't overwrite each other.
+ *
+ * @param path The path of the file
+ * @param update Changes the data, returning false when nothing changed
+ */
+export const updateJsonFile = <T>(path: string, update: (data: Record<string, T>) => boolean|void): Promise<void> => {
+  const key = resolve(path)
+  const previous = updates.get(key) ?? Promise.resolve()
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const data = await readJsonFile<T>(path)
+
+      if (update(data) !== false) {
+        await writeJsonFile(path, data)
+      }
+    })
+  const forget = (): void => {
+    if (updates.get(key) === next) {
+      updates.delete(key)
+    }
+  }
+
+  updates.set(key, next)
+  next.then(forget, forget)
+
+  return next
+}
@@ -1 +1,55 @@
-export { PowerSchool } from './PowerSchool.js'
+export { PowerSchool, PowerSchoolOptions } from './PowerSchool.js'
+export { PowerSchoolRequest } from './PowerSchoolRequest.js'
+export { PowerSchoolRequestConfig } from './PowerSchoolRequestConfig.js'
+export { RequestBuilder } from './RequestBuilder.js'
+export { PowerSchoolResponse, PowerSchoolRecord } from './PowerSchoolResponse.js'
+export {
+  PowerSchoolError,
+  PowerSchoolErrorDetail,
+  PowerSchoolErrorOptions,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+  ServerError,
+} from './PowerSchoolError.js'
+export { TokenStore, StoredToken } from './TokenStore.js'
+export { MemoryTokenStore } from './MemoryTokenStore.js'
+export { FileTokenStore } from './FileTokenStore.js'
+export { RetryPolicy, RetryOptions } from './RetryPolicy.js'
+export { RateLimiter } from './RateLimiter.js'
+export { QueryExpression, QueryCondition, QueryExpressionError, QueryValue, where } from './QueryExpression.js'
+export { Resource, ResourceOptions } from './resources/Resource.js'
+export { DistrictResource } from './resources/DistrictResource.js'
+export { SchoolResource } from './resources/SchoolResource.js'
+export { StudentResource } from './resources/StudentResource.js'
+export { StaffResource } from './resources/StaffResource.js'
+export { SectionResource } from './resources/SectionResource.js'
+export { CourseResource } from './resources/CourseResource.js'
+export { TermResource } from './resources/TermResource.js'
+export * from './resources/models.js'
+export { ChangeFeed, ChangeFeedOptions, ChangeEvent, ChangeType, ChangeHandler, ChangeBatch, parseChanges } from './ChangeFeed.js'
+export { VersionStore } from './VersionStore.js'
+export { MemoryVersionStore } from './MemoryVersionStore.js'
+export { FileVersionStore } from './FileVersionStore.js'
+export { BulkWriter, BulkOptions, BulkResult, BulkSuccess, BulkFailure, UpsertOptions, UpsertResult } from './BulkWriter.js'
+export { PowerQuery, PowerQueryError, PowerQueryDefinition, PowerQueryArgument, PowerQueryArgumentType, PowerQueryArguments, PowerQueryArgs, PowerQueryFunction, PowerQueries } from './PowerQuery.js'
+export { FakePowerSchool, FakePowerSchoolFixtures, FakePowerSchoolOptions, FakeQuery, FakeRequest } from './FakePowerSchool.js'
+export { Cli, CliOptions, CliProfile, CliFormat } from './Cli.js'
+export { flattenRecord, columnsOf, csvField, csvRow } from './csv.js'
+export { Exporter, ExportOptions, ExportResult, ExportProgress, ExportFormat } from './Exporter.js'
+export { TableRequest, TableField } from './TableRequest.js'
+export { TableMetadata, ColumnMetadata, parseTableMetadata } from './TableMetadata.js'
+export { generateTableTypes, tableTypeName, GenerateTableTypesOptions } from './generateTableTypes.js'
+export { ColumnType, ColumnTypes, columnTypeOf, columnTypesFromMetadata, decodeRecord, decodeValue, encodeDate, toColumnTypes } from './decode.js'
+export { Serializer, SerializationOptions } from './Serializer.js'
+export { SchoolYear, SchoolYearOptions, yearIdOf, findCurrentTerm } from './SchoolYear.js'
+export { PowerSchoolPool, PowerSchoolPoolOptions, TenantConfig, TenantConfigProvider } from './PowerSchoolPool.js'
+export { Middleware, MiddlewareContext, MiddlewarePipeline, MiddlewareRequestType, MiddlewareResponse, PipelineResult } from './Middleware.js'
+export { Logger, consoleLogger } from './Logger.js'
+export { DebugMiddleware } from './DebugMiddleware.js'
+export { RecordedInteraction, RecordedRequest, RecordedResponse, Recording, RecordingError, RecordingMode, RecordingOptions } from './Recording.js'
+export { redact } from './redact.js'
+export { CacheStore, CachedResponse } from './CacheStore.js'
+export { MemoryCacheStore } from './MemoryCacheStore.js'
+export { CacheOptions, ResponseCache } from './ResponseCache.js'
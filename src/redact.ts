@@ -0,0 +1,35 @@
+export const REDACTED = '[REDACTED]'
+
+const sensitiveKeys = /^(authorization|client_?secret|access_?token|refresh_?token|token)$/i
+
+/**
+ * Replaces sensitive fields, such as authorization headers and
+ * tokens, along with every occurrence of the given secrets.
+ *
+ * @param value The value to redact
+ * @param secrets The values to remove wherever they appear
+ * @returns {T}
+ */
+export const redact = <T>(value: T, secrets: string[] = []): T => {
+  secrets = secrets.filter(Boolean)
+
+  if (typeof value === 'string') {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value as string) as unknown as T
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, secrets)) as unknown as T
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const output = {}
+
+    for (const [key, item] of Object.entries(value)) {
+      output[key] = sensitiveKeys.test(key) ? REDACTED : redact(item, secrets)
+    }
+
+    return output as T
+  }
+
+  return value
+}
@@ -0,0 +1,8 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { Course } from './models.js'
+
+export class CourseResource extends Resource {
+  public get(id: number, options: ResourceOptions = {}): Promise<Course> {
+    return this.find(`/ws/v1/course/${id}`, 'course', options)
+  }
+}
@@ -0,0 +1,16 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { District, School, Student } from './models.js'
+
+export class DistrictResource extends Resource {
+  public get(options: ResourceOptions = {}): Promise<District> {
+    return this.find('/ws/v1/district', 'district', options)
+  }
+
+  public schools(options: ResourceOptions = {}): Promise<School[]> {
+    return this.list('/ws/v1/district/school', 'schools.school', options)
+  }
+
+  public students(options: ResourceOptions = {}): Promise<Student[]> {
+    return this.list('/ws/v1/district/student', 'students.student', options)
+  }
+}
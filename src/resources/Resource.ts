@@ -0,0 +1,83 @@
+import { PowerSchool } from '../PowerSchool.js'
+import { PowerSchoolRequest } from '../PowerSchoolRequest.js'
+import { PowerSchoolRecord } from '../PowerSchoolResponse.js'
+import { QueryExpression } from '../QueryExpression.js'
+
+export interface ResourceOptions {
+  expansions?: string|string[]
+  extensions?: string|string[]
+  q?: string|string[]|QueryExpression
+  pageSize?: number
+}
+
+/**
+ * Base for the clients of the core `/ws/v1` resources.
+ */
+export abstract class Resource {
+  protected client: PowerSchool
+
+  constructor(client: PowerSchool) {
+    this.client = client
+  }
+
+  /**
+   * Builds a GET request for an endpoint of the resource.
+   *
+   * @param endpoint The endpoint of the resource
+   * @param pageKey The key of the response holding the records
+   * @param options Expansions, extensions and the query expression
+   * @returns {PowerSchoolRequest}
+   */
+  protected request(endpoint: string, pageKey: string, options: ResourceOptions = {}): PowerSchoolRequest {
+    let request = this.client.request()
+      .setEndpoint(endpoint)
+      .setPageKey(pageKey)
+      .setMethod('get')
+
+    if (options.expansions) {
+      request = request.expansions(options.expansions)
+    }
+
+    if (options.extensions) {
+      request = request.extensions(options.extensions)
+    }
+
+    if (options.q) {
+      request = request.q(options.q)
+    }
+
+    return request
+  }
+
+  /**
+   * Retrieves a single record.
+   *
+   * @param endpoint The endpoint of the record
+   * @param pageKey The key of the response holding the record
+   * @param options Expansions and extensions to include
+   * @returns {Promise<T>}
+   */
+  protected async find<T extends object>(endpoint: string, pageKey: string, options: ResourceOptions = {}): Promise<T> {
+    const res = await this.request(endpoint, pageKey, options).send()
+
+    return res.first() as T
+  }
+
+  /**
+   * Retrieves every page of a collection.
+   *
+   * @param endpoint The endpoint of the collection
+   * @param pageKey The key of the response holding the records
+   * @param options Expansions, extensions, the query expression and page size
+   * @returns {Promise<T[]>}
+   */
+  protected async list<T extends object>(endpoint: string, pageKey: string, options: ResourceOptions = {}): Promise<T[]> {
+    const records: PowerSchoolRecord[] = []
+
+    for await (const record of this.request(endpoint, pageKey, options).paginate(options.pageSize ?? 100)) {
+      records.push(record)
+    }
+
+    return records as T[]
+  }
+}
@@ -0,0 +1,35 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { Course, School, Section, Staff, Student, Term } from './models.js'
+
+export class SchoolResource extends Resource {
+  public get(id: number, options: ResourceOptions = {}): Promise<School> {
+    return this.find(`/ws/v1/school/${id}`, 'school', options)
+  }
+
+  /**
+   * Retrieves every school in the district.
+   */
+  public all(options: ResourceOptions = {}): Promise<School[]> {
+    return this.list('/ws/v1/district/school', 'schools.school', options)
+  }
+
+  public students(schoolId: number, options: ResourceOptions = {}): Promise<Student[]> {
+    return this.list(`/ws/v1/school/${schoolId}/student`, 'students.student', options)
+  }
+
+  public staff(schoolId: number, options: ResourceOptions = {}): Promise<Staff[]> {
+    return this.list(`/ws/v1/school/${schoolId}/staff`, 'staffs.staff', options)
+  }
+
+  public sections(schoolId: number, options: ResourceOptions = {}): Promise<Section[]> {
+    return this.list(`/ws/v1/school/${schoolId}/section`, 'sections.section', options)
+  }
+
+  public courses(schoolId: number, options: ResourceOptions = {}): Promise<Course[]> {
+    return this.list(`/ws/v1/school/${schoolId}/course`, 'courses.course', options)
+  }
+
+  public terms(schoolId: number, options: ResourceOptions = {}): Promise<Term[]> {
+    return this.list(`/ws/v1/school/${schoolId}/term`, 'terms.term', options)
+  }
+}
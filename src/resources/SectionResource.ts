@@ -0,0 +1,12 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { Section, SectionEnrollment } from './models.js'
+
+export class SectionResource extends Resource {
+  public get(id: number, options: ResourceOptions = {}): Promise<Section> {
+    return this.find(`/ws/v1/section/${id}`, 'section', options)
+  }
+
+  public enrollments(sectionId: number, options: ResourceOptions = {}): Promise<SectionEnrollment[]> {
+    return this.list(`/ws/v1/section/${sectionId}/section_enrollment`, 'section_enrollments.section_enrollment', options)
+  }
+}
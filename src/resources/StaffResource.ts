@@ -0,0 +1,8 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { Staff } from './models.js'
+
+export class StaffResource extends Resource {
+  public get(id: number, options: ResourceOptions = {}): Promise<Staff> {
+    return this.find(`/ws/v1/staff/${id}`, 'staff', options)
+  }
+}
@@ -0,0 +1,8 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { Student } from './models.js'
+
+export class StudentResource extends Resource {
+  public get(id: number, options: ResourceOptions = {}): Promise<Student> {
+    return this.find(`/ws/v1/student/${id}`, 'student', options)
+  }
+}
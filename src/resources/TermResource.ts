@@ -0,0 +1,36 @@
+import { Resource, ResourceOptions } from './Resource.js'
+import { Term } from './models.js'
+import { SchoolYear, findCurrentTerm } from '../SchoolYear.js'
+
+export class TermResource extends Resource {
+  public get(id: number, options: ResourceOptions = {}): Promise<Term> {
+    return this.find(`/ws/v1/term/${id}`, 'term', options)
+  }
+
+  /**
+   * Retrieves the terms of a school, optionally only those of a school year.
+   *
+   * @param schoolId The id of the school
+   * @param year The school year of the terms
+   * @param options Expansions, extensions and the query expression
+   * @returns {Promise<Term[]>}
+   */
+  public async forSchool(schoolId: number, year: SchoolYear = null, options: ResourceOptions = {}): Promise<Term[]> {
+    const terms = await this.list<Term>(`/ws/v1/school/${schoolId}/term`, 'terms.term', options)
+
+    return year
+      ? terms.filter(term => term.start_year !== undefined ? Number(term.start_year) === year.startYear : year.hasTerm(term.id))
+      : terms
+  }
+
+  /**
+   * Retrieves the most specific term of a school that contains a date.
+   *
+   * @param schoolId The id of the school
+   * @param date The date, defaults to today
+   * @returns {Promise<Term|null>}
+   */
+  public async current(schoolId: number, date: Date = new Date()): Promise<Term|null> {
+    return findCurrentTerm(await this.forSchool(schoolId), date)
+  }
+}
@@ -0,0 +1,110 @@
+export interface Address {
+  street?: string
+  city?: string
+  state_province?: string
+  postal_code?: string
+  [key: string]: unknown
+}
+
+export interface Name {
+  first_name?: string
+  middle_name?: string
+  last_name?: string
+}
+
+export interface District {
+  id?: number
+  name: string
+  district_number?: number
+  address?: Address
+  [key: string]: unknown
+}
+
+export interface School {
+  id: number
+  name: string
+  school_number: number
+  alternate_school_number?: number
+  low_grade?: number
+  high_grade?: number
+  addresses?: { physical?: Address, mailing?: Address }
+  [key: string]: unknown
+}
+
+export interface Student {
+  id: number
+  local_id?: number
+  student_username?: string
+  state_province_id?: string
+  name: Name
+  demographics?: {
+    gender?: string
+    birth_date?: string
+    projected_graduation_year?: number
+    [key: string]: unknown
+  }
+  school_enrollment?: {
+    enroll_status?: string
+    enroll_status_code?: number
+    grade_level?: number
+    entry_date?: string
+    exit_date?: string
+    school_number?: number
+    school_id?: number
+    [key: string]: unknown
+  }
+  [key: string]: unknown
+}
+
+export interface Staff {
+  id: number
+  local_id?: number
+  admin_username?: string
+  teacher_username?: string
+  name: Name
+  emails?: { work_email?: string }
+  [key: string]: unknown
+}
+
+export interface Section {
+  id: number
+  school_id: number
+  course_id: string
+  term_id: number
+  section_number: string
+  expression?: string
+  external_expression?: string
+  staff_id?: number
+  gradebooktype?: number
+  [key: string]: unknown
+}
+
+export interface Course {
+  id: number
+  course_number: string
+  course_name: string
+  [key: string]: unknown
+}
+
+export interface Term {
+  id: number
+  name: string
+  abbreviation?: string
+  local_id?: number
+  school_id: number
+  start_year: number
+  start_date: string
+  end_date: string
+  portion?: number
+  [key: string]: unknown
+}
+
+export interface SectionEnrollment {
+  id: number
+  section_id: number
+  student_id: number
+  entry_date?: string
+  exit_date?: string
+  dropped?: boolean
+  [key: string]: unknown
+}
@@ -0,0 +1,9 @@
+/**
+ * Resolves after the given number of milliseconds.
+ *
+ * @param ms The number of milliseconds to wait
+ * @returns {Promise<void>}
+ */
+export const sleep = (ms: number): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
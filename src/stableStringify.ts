@@ -0,0 +1,22 @@
+/**
+ * Converts a value to JSON with the keys of objects sorted,
+ * so equal values always give the same string.
+ *
+ * @param value The value to convert
+ * @returns {string}
+ */
+export const stableStringify = (value: unknown): string => {
+  const sorted = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(sorted)
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(Object.keys(value).sort().map(key => [key, sorted(value[key])]))
+    }
+
+    return value
+  }
+
+  return JSON.stringify(sorted(value))
+}